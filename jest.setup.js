@@ -0,0 +1,10 @@
+// Native modules that have no implementation under Jest
+
+jest.mock("expo-audio", () => ({
+  useAudioPlayer: jest.fn(() => ({ play: jest.fn(), seekTo: jest.fn() })),
+  setAudioModeAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
@@ -0,0 +1,65 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { colors } from "../theme/colors";
+import { formatTime } from "../utils/timeFormat";
+
+interface AmrapSummaryProps {
+  splits: number[]; // milliseconds per round (@see getAmrapSplits)
+  fontSize?: number;
+}
+
+/**
+ * End-of-AMRAP summary: total rounds and the split for each one.
+ * The fastest split is shown in green, the slowest in red.
+ */
+export function AmrapSummary({ splits, fontSize = 16 }: AmrapSummaryProps) {
+  if (splits.length === 0) return null;
+
+  const fastest = Math.min(...splits);
+  const slowest = Math.max(...splits);
+
+  const getSplitColor = (split: number) => {
+    if (splits.length < 2) return colors.textSecondary;
+    if (split === fastest) return colors.green;
+    if (split === slowest) return colors.red;
+    return colors.textSecondary;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.total, { fontSize: fontSize * 1.25 }]}>
+        {splits.length} {splits.length === 1 ? "ROUND" : "ROUNDS"}
+      </Text>
+      <View style={styles.splits}>
+        {splits.map((split, i) => (
+          <Text
+            key={i}
+            style={[styles.split, { fontSize, color: getSplitColor(split) }]}
+          >
+            R{i + 1} {formatTime(split)}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+  },
+  total: {
+    fontFamily: "Digital7Mono",
+    color: colors.yellow,
+    marginBottom: 4,
+  },
+  splits: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    columnGap: 16,
+  },
+  split: {
+    fontFamily: "Digital7Mono",
+  },
+});
@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Preset, Session } from "../types";
+import { colors } from "../theme/colors";
+import { pickTextFile, shareFile } from "../storage/fileTransfer";
+import {
+  exportCsv,
+  exportJson,
+  importData,
+  ImportError,
+  ImportResult,
+} from "../utils/dataTransfer";
+
+interface DataTransferPanelProps {
+  presets: Preset[];
+  sessions: Session[];
+  onImport: (result: ImportResult) => void; // only the records that passed
+}
+
+/** What went wrong, in a form that can be shown under the buttons */
+function describeError(error: unknown): string {
+  return error instanceof Error && error.message
+    ? error.message
+    : "something went wrong";
+}
+
+/**
+ * Export presets and history as JSON or CSV, or import a file of either.
+ * After an import, any rejected records are listed with the reason, and a
+ * failed export or unreadable file is listed the same way.
+ */
+export function DataTransferPanel({
+  presets,
+  sessions,
+  onImport,
+}: DataTransferPanelProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const [errors, setErrors] = useState<ImportError[]>([]);
+
+  const exportFile = async (kind: "json" | "csv") => {
+    const data = { presets, sessions };
+    const date = new Date().toISOString().slice(0, 10);
+    setErrors([]);
+    try {
+      if (kind === "json") {
+        await shareFile(
+          `gym-clock-${date}.json`,
+          exportJson(data),
+          "application/json"
+        );
+      } else {
+        await shareFile(`gym-clock-${date}.csv`, exportCsv(data), "text/csv");
+      }
+      setMessage(null);
+    } catch (error) {
+      setMessage(null);
+      setErrors([{ record: "Export", message: describeError(error) }]);
+    }
+  };
+
+  const importFile = async () => {
+    let text: string | null;
+    try {
+      text = await pickTextFile();
+    } catch (error) {
+      setMessage(null);
+      setErrors([{ record: "File", message: describeError(error) }]);
+      return;
+    }
+    if (text === null) return;
+
+    const result = importData(text);
+    onImport(result);
+
+    const rejected =
+      result.errors.length > 0 ? ` · ${result.errors.length} rejected` : "";
+    setMessage(
+      `Imported ${result.presets.length} presets, ${result.sessions.length} sessions${rejected}`
+    );
+    setErrors(result.errors);
+  };
+
+  return (
+    <View>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => exportFile("json")}
+        >
+          <Text style={styles.actionButtonText}>Export JSON</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => exportFile("csv")}
+        >
+          <Text style={styles.actionButtonText}>Export CSV</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={importFile}>
+          <Text style={styles.actionButtonText}>Import</Text>
+        </TouchableOpacity>
+      </View>
+
+      {message && <Text style={styles.message}>{message}</Text>}
+      {errors.map((error, i) => (
+        <Text key={i} style={styles.error}>
+          {error.record}: {error.message}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+  },
+  actionButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  message: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textSecondary,
+    paddingVertical: 8,
+  },
+  error: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.red,
+    paddingBottom: 4,
+  },
+});
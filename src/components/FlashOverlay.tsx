@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Animated, View, StyleSheet } from "react-native";
+import { FlashCue } from "../hooks/useFlashCues";
+
+interface FlashOverlayProps {
+  cue: FlashCue | null; // plays each time this changes
+  color: string;
+  reducedMotion: boolean; // show a steady frame instead
+}
+
+const FLASH_OPACITY = { strong: 0.8, soft: 0.35 };
+const FLASH_DURATION = 500; // ms to fade out
+const FRAME_DURATION = 1000; // ms the reduced-motion frame stays up
+
+/**
+ * Fills the screen with `color` and fades it out whenever a new cue
+ * arrives (@see useFlashCues). Sits over everything without catching taps.
+ */
+export function FlashOverlay({ cue, color, reducedMotion }: FlashOverlayProps) {
+  const opacity = useRef(new Animated.Value(0)).current;
+  const [isFramed, setIsFramed] = useState(false);
+
+  useEffect(() => {
+    if (!cue) return;
+
+    if (reducedMotion) {
+      setIsFramed(true);
+      const timeout = setTimeout(() => setIsFramed(false), FRAME_DURATION);
+      return () => clearTimeout(timeout);
+    }
+
+    opacity.setValue(FLASH_OPACITY[cue.strength]);
+    const animation = Animated.timing(opacity, {
+      toValue: 0,
+      duration: FLASH_DURATION,
+      useNativeDriver: true,
+    });
+    animation.start();
+    return () => animation.stop();
+    // Only a new cue should play, not a color change
+  }, [cue]);
+
+  return (
+    <>
+      <Animated.View
+        pointerEvents="none"
+        style={[StyleSheet.absoluteFill, { backgroundColor: color, opacity }]}
+      />
+      {isFramed && (
+        <View
+          pointerEvents="none"
+          style={[
+            StyleSheet.absoluteFill,
+            styles.frame,
+            { borderColor: color },
+          ]}
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    borderWidth: 16,
+  },
+});
@@ -0,0 +1,286 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { IntervalSegment } from "../types";
+import { colors } from "../theme/colors";
+import { formatTime } from "../utils/timeFormat";
+import {
+  cleanSegmentLabel,
+  createSegment,
+  SEGMENT_COLORS,
+} from "../utils/intervals";
+
+interface IntervalBuilderProps {
+  segments: IntervalSegment[];
+  onChange: (segments: IntervalSegment[]) => void;
+}
+
+const MIN_DURATION = 5;
+const MAX_DURATION = 3600;
+const DURATION_STEP = 15;
+
+/**
+ * Editable list of interval segments.
+ * Each row lets you rename the segment, set its length, flip it between
+ * work and rest, cycle its color, move it up/down or delete it.
+ */
+export function IntervalBuilder({ segments, onChange }: IntervalBuilderProps) {
+  const updateSegment = (index: number, changes: Partial<IntervalSegment>) => {
+    onChange(
+      segments.map((segment, i) =>
+        i === index ? { ...segment, ...changes } : segment
+      )
+    );
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= segments.length) return;
+
+    const reordered = [...segments];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const deleteSegment = (index: number) => {
+    onChange(segments.filter((_, i) => i !== index));
+  };
+
+  // Alternate work and rest so "add, add, add" builds a sensible workout
+  const addSegment = () => {
+    const last = segments[segments.length - 1];
+    const segment: Omit<IntervalSegment, "id"> =
+      last?.kind === "work"
+        ? { label: "Rest", duration: 60, color: "red", kind: "rest" }
+        : { label: "Work", duration: 60, color: "green", kind: "work" };
+    onChange([...segments, createSegment(segment)]);
+  };
+
+  // Labels are shown on the display and in share codes, so never leave one
+  // blank once editing is done
+  const commitLabel = (index: number, segment: IntervalSegment) => {
+    updateSegment(index, {
+      label: cleanSegmentLabel(segment.label, segment.kind),
+    });
+  };
+
+  // Step along multiples of DURATION_STEP, so 5s goes to 15s, not 20s
+  const stepDuration = (duration: number, offset: number) =>
+    Math.min(
+      MAX_DURATION,
+      Math.max(
+        MIN_DURATION,
+        Math.round((duration + offset) / DURATION_STEP) * DURATION_STEP
+      )
+    );
+
+  const cycleColor = (segment: IntervalSegment) =>
+    SEGMENT_COLORS[
+      (SEGMENT_COLORS.indexOf(segment.color) + 1) % SEGMENT_COLORS.length
+    ];
+
+  return (
+    <View>
+      {segments.map((segment, index) => (
+        <View key={segment.id} style={styles.segmentRow}>
+          <View style={styles.segmentLine}>
+            <TouchableOpacity
+              style={[
+                styles.colorDot,
+                { backgroundColor: colors[segment.color] },
+              ]}
+              onPress={() =>
+                updateSegment(index, { color: cycleColor(segment) })
+              }
+            />
+            <TextInput
+              style={styles.labelInput}
+              value={segment.label}
+              onChangeText={(label) => updateSegment(index, { label })}
+              onBlur={() => commitLabel(index, segment)}
+              placeholder="Label"
+              placeholderTextColor={colors.textMuted}
+              maxLength={12}
+            />
+            <TouchableOpacity
+              style={[
+                styles.kindButton,
+                segment.kind === "work" && styles.kindButtonWork,
+              ]}
+              onPress={() =>
+                updateSegment(index, {
+                  kind: segment.kind === "work" ? "rest" : "work",
+                })
+              }
+            >
+              <Text style={styles.kindText}>
+                {segment.kind === "work" ? "WORK" : "REST"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.segmentLine}>
+            <View style={styles.durationControls}>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() =>
+                  updateSegment(index, {
+                    duration: stepDuration(segment.duration, -DURATION_STEP),
+                  })
+                }
+              >
+                <Text style={styles.smallButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.durationValue}>
+                {formatTime(segment.duration * 1000)}
+              </Text>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() =>
+                  updateSegment(index, {
+                    duration: stepDuration(segment.duration, DURATION_STEP),
+                  })
+                }
+              >
+                <Text style={styles.smallButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.orderControls}>
+              <TouchableOpacity
+                style={[styles.smallButton, index === 0 && styles.disabled]}
+                onPress={() => moveSegment(index, -1)}
+                disabled={index === 0}
+              >
+                <Text style={styles.smallButtonText}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.smallButton,
+                  index === segments.length - 1 && styles.disabled,
+                ]}
+                onPress={() => moveSegment(index, 1)}
+                disabled={index === segments.length - 1}
+              >
+                <Text style={styles.smallButtonText}>↓</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => deleteSegment(index)}
+              >
+                <Text style={styles.smallButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={addSegment}>
+        <Text style={styles.addButtonText}>+ Add Segment</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  segmentRow: {
+    paddingVertical: 12,
+    gap: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.background,
+  },
+  segmentLine: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  colorDot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+  },
+  labelInput: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 15,
+    color: colors.textPrimary,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: colors.background,
+    borderRadius: 8,
+  },
+  kindButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.redDim,
+  },
+  kindButtonWork: {
+    backgroundColor: colors.greenDim,
+  },
+  kindText: {
+    fontFamily: "System",
+    fontSize: 12,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    letterSpacing: 1,
+  },
+  durationControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  orderControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  smallButton: {
+    width: 32,
+    height: 32,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  smallButtonText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  durationValue: {
+    fontFamily: "System",
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    minWidth: 56,
+    textAlign: "center",
+  },
+  addButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.buttonSecondary,
+    alignItems: "center",
+  },
+  addButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "500",
+    color: colors.textSecondary,
+    textTransform: "uppercase",
+  },
+});
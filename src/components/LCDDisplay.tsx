@@ -1,11 +1,12 @@
 import React from "react";
 import { View, Text, StyleSheet } from "react-native";
-import { colors, shadows } from "../theme/colors";
+import { DisplayColor } from "../types";
+import { colors, displayColors } from "../theme/colors";
 
 interface LCDDisplayProps {
   value: string;
   size?: "small" | "medium" | "large" | "xlarge" | "huge";
-  color?: "red" | "blue" | "green" | "yellow";
+  color?: DisplayColor;
   showBackground?: boolean;
   fontSize?: number;
 }
@@ -18,13 +19,6 @@ const sizeMap = {
   huge: 160,
 };
 
-const colorMap = {
-  red: { active: colors.red, glow: shadows.redGlow },
-  blue: { active: colors.blue, glow: shadows.blueGlow },
-  green: { active: colors.green, glow: shadows.greenGlow },
-  yellow: { active: colors.yellow, glow: shadows.yellowGlow },
-};
-
 // Generate the background "88:88:88" pattern to show all segments
 function getBackgroundPattern(value: string): string {
   return value.replace(/[0-9]/g, "8");
@@ -38,7 +32,7 @@ export function LCDDisplay({
   fontSize: customFontSize,
 }: LCDDisplayProps) {
   const fontSize = customFontSize ?? sizeMap[size];
-  const colorStyle = colorMap[color];
+  const colorStyle = displayColors[color];
   const backgroundPattern = getBackgroundPattern(value);
 
   const textStyle = [styles.text, { fontSize }];
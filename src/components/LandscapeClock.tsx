@@ -7,28 +7,188 @@ import {
   Dimensions,
 } from "react-native";
 import { LCDDisplay } from "./LCDDisplay";
-import { TimerState, TimerMode } from "../types";
+import { ProgressBar } from "./ProgressBar";
+import { AmrapSummary } from "./AmrapSummary";
+import { FlashOverlay } from "./FlashOverlay";
+import { useFlashCues } from "../hooks/useFlashCues";
+import { ColorTheme, TimerState } from "../types";
 import {
   formatStopwatch,
+  formatLastLap,
   formatCountdown,
   formatTabata,
   formatEmom,
   formatAmrap,
+  formatAmrapRounds,
+  getAmrapSplits,
+  formatForTime,
+  formatSeconds,
+  formatIntervals,
+  formatRest,
+  formatNextUp,
+  formatRemaining,
   formatClock,
   formatIntroCountdown,
 } from "../utils/timeFormat";
-import { colors, shadows } from "../theme/colors";
+import { isWorkoutComplete } from "../utils/timerEvents";
+import { formatProgramNext, formatProgramPart } from "../utils/program";
+import { getProgress } from "../utils/progress";
+import { REST_DURATIONS } from "../utils/workoutConfig";
+import { colors, displayColors } from "../theme/colors";
+import { getDisplayColor } from "../theme/themes";
 
 interface LandscapeClockProps {
   state: TimerState;
+  theme: ColorTheme;
   onToggle: () => void;
   onReset: () => void;
+  onLogRound: () => void;
+  onLap: () => void;
+  onFinish: () => void;
+  onStartRest: (duration?: number) => void; // seconds, else the last one used
+}
+
+/**
+ * What the big display shows: the main time, the phase/round line above it
+ * and the digit color from `theme`. `clockTime` is shown in clock mode.
+ */
+export function getDisplayContent(
+  state: TimerState,
+  clockTime: string,
+  theme: ColorTheme
+) {
+  const color = getDisplayColor(state, theme);
+
+  // Show countdown intro if active
+  if (state.isInCountdownIntro) {
+    return {
+      main: formatIntroCountdown(state),
+      sub: { phase: "GET READY", round: "" },
+      color,
+      isIntro: true,
+    };
+  }
+
+  // Resting between program blocks
+  if (state.isProgramRest) {
+    return {
+      main: formatCountdown(state),
+      sub: { phase: "REST", round: "" },
+      color,
+      isIntro: false,
+    };
+  }
+
+  switch (state.mode) {
+    case "clock":
+      return {
+        main: clockTime,
+        sub: null,
+        color,
+        isIntro: false,
+      };
+
+    case "stopwatch": {
+      const lap = formatLastLap(state);
+      return {
+        main: formatStopwatch(state),
+        sub: lap ? { phase: lap.lap, round: lap.split } : null,
+        color,
+        isIntro: false,
+      };
+    }
+
+    case "countdown":
+      return {
+        main: formatCountdown(state),
+        sub: null,
+        color,
+        isIntro: false,
+      };
+
+    case "tabata": {
+      const tabata = formatTabata(state);
+      return {
+        main: tabata.time,
+        sub: { phase: tabata.phase, round: tabata.round },
+        color,
+        isIntro: false,
+      };
+    }
+
+    case "emom": {
+      const emom = formatEmom(state);
+      return {
+        main: emom.time,
+        sub: { phase: "EMOM", round: emom.minute },
+        color,
+        isIntro: false,
+      };
+    }
+
+    case "amrap":
+      return {
+        main: formatAmrap(state),
+        sub: { phase: "AMRAP", round: formatAmrapRounds(state) },
+        color,
+        isIntro: false,
+      };
+
+    case "fortime": {
+      const forTime = formatForTime(state);
+      return {
+        main: forTime.time,
+        sub: {
+          phase: "FOR TIME",
+          round:
+            forTime.rounds ||
+            forTime.status ||
+            `CAP ${formatSeconds(state.fortime.timeCap)}`,
+        },
+        color,
+        isIntro: false,
+      };
+    }
+
+    case "intervals": {
+      const intervals = formatIntervals(state);
+      return {
+        main: intervals.time,
+        sub: { phase: intervals.label, round: intervals.segment },
+        color,
+        isIntro: false,
+      };
+    }
+
+    case "rest": {
+      const rest = formatRest(state);
+      return {
+        main: rest.time,
+        sub: { phase: rest.set, round: rest.session },
+        color,
+        isIntro: false,
+      };
+    }
+
+    default:
+      return {
+        main: "00:00",
+        sub: null,
+        color,
+        isIntro: false,
+      };
+  }
 }
 
 export function LandscapeClock({
   state,
+  theme,
   onToggle,
   onReset,
+  onLogRound,
+  onLap,
+  onFinish,
+  onStartRest,
 }: LandscapeClockProps) {
   const [clockTime, setClockTime] = useState(formatClock());
   const [dimensions, setDimensions] = useState(Dimensions.get("window"));
@@ -50,95 +210,81 @@ export function LandscapeClock({
     }
   }, [state.mode]);
 
-  const getDisplayContent = () => {
-    // Show countdown intro if active
-    if (state.isInCountdownIntro) {
-      return {
-        main: formatIntroCountdown(state),
-        sub: { phase: "GET READY", round: "" },
-        color: "yellow" as const,
-        isIntro: true,
-      };
-    }
+  const display = getDisplayContent(state, clockTime, theme);
+  const showControls = state.mode !== "clock";
+  const flash = useFlashCues(state);
 
-    switch (state.mode) {
-      case "clock":
-        return {
-          main: clockTime,
-          sub: null,
-          color: "blue" as const,
-          isIntro: false,
-        };
-
-      case "stopwatch":
-        return {
-          main: formatStopwatch(state),
-          sub: null,
-          color: "red" as const,
-          isIntro: false,
-        };
-
-      case "countdown":
-        return {
-          main: formatCountdown(state),
-          sub: null,
-          color: "red" as const,
-          isIntro: false,
-        };
-
-      case "tabata": {
-        const tabata = formatTabata(state);
-        const color = state.isWorkPhase ? ("green" as const) : ("red" as const);
-        return {
-          main: tabata.time,
-          sub: { phase: tabata.phase, round: tabata.round },
-          color,
-          isIntro: false,
-        };
-      }
+  // Work/rest modes tint the whole screen with the phase color
+  const hasPhases = state.mode === "tabata" || state.mode === "intervals";
+  const isTinted =
+    state.flash.phaseTint &&
+    hasPhases &&
+    !state.isInCountdownIntro &&
+    state.currentTime > 0 &&
+    !isWorkoutComplete(state);
 
-      case "emom": {
-        const emom = formatEmom(state);
-        return {
-          main: emom.time,
-          sub: { phase: "EMOM", round: emom.minute },
-          color: "blue" as const,
-          isIntro: false,
-        };
-      }
+  // Stopwatch: tap zone to record a lap while running
+  const canLap = state.mode === "stopwatch" && state.isRunning;
 
-      case "amrap":
-        return {
-          main: formatAmrap(state),
-          sub: { phase: "AMRAP", round: "" },
-          color: "yellow" as const,
-          isIntro: false,
-        };
-
-      default:
-        return {
-          main: "00:00",
-          sub: null,
-          color: "red" as const,
-          isIntro: false,
-        };
-    }
-  };
+  // For Time: tap zone to finish while running
+  const canFinish =
+    state.mode === "fortime" && state.isRunning && !state.isInCountdownIntro;
 
-  const display = getDisplayContent();
-  const showControls = state.mode !== "clock";
+  // AMRAP / For Time: tap zone to log rounds while running, and for AMRAP
+  // a summary once it's over
+  const isAmrap = state.mode === "amrap";
+  const canLogRound =
+    (isAmrap || state.mode === "fortime") &&
+    state.isRunning &&
+    !state.isInCountdownIntro &&
+    !isWorkoutComplete(state);
+  const showAmrapSummary =
+    isAmrap && isWorkoutComplete(state) && state.amrapRounds.length > 0;
+
+  const progress = theme.showProgress ? getProgress(state) : null;
+
+  // Tabata / EMOM: what's next, and how long is left of the whole workout
+  const hasWorkoutLine = state.mode === "tabata" || state.mode === "emom";
+  const nextUp = state.isInCountdownIntro ? null : formatNextUp(state);
+  const remaining = formatRemaining(state);
+
+  // Rest: a tap anywhere starts the rest after a set, or pick a length.
+  // The length under way is marked, or between rests the default one.
+  const isRest = state.mode === "rest";
+  const activeRest =
+    state.restEndsAt === null ? state.rest.duration : state.restDuration;
+
+  // Program: which part this is and what's coming up
+  const programPart = formatProgramPart(state);
+  const programNext = formatProgramNext(state);
 
   const clockFontSize = 250;
   const subFontSize = Math.max(28, clockFontSize * 0.22);
 
   return (
     <TouchableOpacity
-      style={styles.container}
+      style={[
+        styles.container,
+        isTinted && { backgroundColor: displayColors[display.color].dim },
+      ]}
       activeOpacity={1}
-      onPress={showControls ? onToggle : undefined}
+      onPress={
+        isRest ? () => onStartRest() : showControls ? onToggle : undefined
+      }
       onLongPress={showControls ? onReset : undefined}
       delayLongPress={500}
     >
+      {programPart && (
+        <View style={styles.programBar}>
+          <Text style={styles.programText}>{programPart}</Text>
+          {programNext && (
+            <Text style={styles.programText} numberOfLines={1}>
+              {programNext}
+            </Text>
+          )}
+        </View>
+      )}
+
       <View style={styles.displayContainer}>
         {display.sub && (
           <View style={styles.subDisplay}>
@@ -147,9 +293,9 @@ export function LandscapeClock({
                 styles.subText,
                 {
                   fontSize: subFontSize,
-                  color: colorMap[display.color].active,
+                  color: displayColors[display.color].active,
                 },
-                shadows[`${display.color}Glow`],
+                displayColors[display.color].glow,
               ]}
             >
               {display.sub.phase}
@@ -159,9 +305,9 @@ export function LandscapeClock({
                 styles.subText,
                 {
                   fontSize: subFontSize,
-                  color: colorMap[display.color].active,
+                  color: displayColors[display.color].active,
                 },
-                shadows[`${display.color}Glow`],
+                displayColors[display.color].glow,
               ]}
             >
               {display.sub.round || ""}
@@ -176,6 +322,41 @@ export function LandscapeClock({
           fontSize={clockFontSize}
         />
 
+        {hasWorkoutLine && remaining && (
+          <View style={styles.workoutLine}>
+            <Text
+              style={[
+                styles.subText,
+                {
+                  fontSize: subFontSize * 0.7,
+                  color: displayColors[display.color].active,
+                },
+              ]}
+              numberOfLines={1}
+            >
+              {nextUp ?? ""}
+            </Text>
+            <View style={styles.remaining}>
+              <Text style={styles.remainingLabel}>TOTAL</Text>
+              <LCDDisplay
+                value={remaining}
+                color={display.color}
+                fontSize={subFontSize}
+              />
+            </View>
+          </View>
+        )}
+
+        {progress && (
+          <View style={styles.progress}>
+            <ProgressBar
+              progress={progress}
+              color={display.color}
+              width={dimensions.width * 0.6}
+            />
+          </View>
+        )}
+
         {showControls && (
           <View style={styles.statusIndicator}>
             <View
@@ -189,17 +370,80 @@ export function LandscapeClock({
           </View>
         )}
       </View>
+
+      {(canLogRound || canLap || canFinish) && (
+        <View style={styles.tapZones}>
+          {canLogRound && (
+            <TouchableOpacity
+              style={styles.tapZone}
+              onPress={onLogRound}
+              activeOpacity={0.6}
+            >
+              <Text style={styles.tapZoneText}>+1 ROUND</Text>
+            </TouchableOpacity>
+          )}
+
+          {canLap && (
+            <TouchableOpacity
+              style={[styles.tapZone, styles.lapZone]}
+              onPress={onLap}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.tapZoneText, { color: colors.red }]}>
+                LAP
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {canFinish && (
+            <TouchableOpacity
+              style={[styles.tapZone, styles.finishZone]}
+              onPress={onFinish}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.tapZoneText, { color: colors.green }]}>
+                DONE
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {isRest && (
+        <View style={styles.restButtons}>
+          {REST_DURATIONS.map((duration) => (
+            <TouchableOpacity
+              key={duration}
+              style={[
+                styles.restButton,
+                duration === activeRest && styles.restButtonActive,
+              ]}
+              onPress={() => onStartRest(duration)}
+              activeOpacity={0.6}
+            >
+              <Text style={styles.restButtonText}>
+                {formatSeconds(duration)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {showAmrapSummary && (
+        <View style={styles.summary}>
+          <AmrapSummary splits={getAmrapSplits(state)} fontSize={22} />
+        </View>
+      )}
+
+      <FlashOverlay
+        cue={flash.cue}
+        color={displayColors[display.color].active}
+        reducedMotion={flash.reducedMotion}
+      />
     </TouchableOpacity>
   );
 }
 
-const colorMap = {
-  red: { active: colors.red },
-  blue: { active: colors.blue },
-  green: { active: colors.green },
-  yellow: { active: colors.yellow },
-};
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -208,6 +452,23 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingHorizontal: 20,
   },
+  programBar: {
+    position: "absolute",
+    top: 16,
+    left: 24,
+    right: 24,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 24,
+  },
+  programText: {
+    fontFamily: "System",
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.textSecondary,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
   displayContainer: {
     alignItems: "center",
     justifyContent: "center",
@@ -224,6 +485,27 @@ const styles = StyleSheet.create({
   subText: {
     fontFamily: "Digital7Mono",
   },
+  workoutLine: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    width: "100%",
+    maxWidth: 800,
+    marginTop: 8,
+    paddingHorizontal: 10,
+  },
+  remaining: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  remainingLabel: {
+    fontFamily: "System",
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.textMuted,
+    letterSpacing: 1,
+  },
   statusIndicator: {
     marginTop: 24,
     alignItems: "center",
@@ -233,4 +515,64 @@ const styles = StyleSheet.create({
     height: 16,
     borderRadius: 8,
   },
+  tapZones: {
+    position: "absolute",
+    right: 24,
+    bottom: 24,
+    flexDirection: "row",
+    gap: 12,
+  },
+  tapZone: {
+    paddingHorizontal: 28,
+    paddingVertical: 20,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.yellow,
+    backgroundColor: colors.yellowDim,
+  },
+  tapZoneText: {
+    fontFamily: "Digital7Mono",
+    fontSize: 32,
+    color: colors.yellow,
+  },
+  lapZone: {
+    borderColor: colors.red,
+    backgroundColor: colors.redDim,
+  },
+  finishZone: {
+    borderColor: colors.green,
+    backgroundColor: colors.greenDim,
+  },
+  progress: {
+    marginTop: 16,
+  },
+  restButtons: {
+    position: "absolute",
+    right: 24,
+    bottom: 24,
+    flexDirection: "row",
+    gap: 12,
+  },
+  restButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.buttonSecondary,
+  },
+  restButtonActive: {
+    borderColor: colors.red,
+    backgroundColor: colors.redDim,
+  },
+  restButtonText: {
+    fontFamily: "Digital7Mono",
+    fontSize: 28,
+    color: colors.textPrimary,
+  },
+  summary: {
+    position: "absolute",
+    left: 20,
+    right: 20,
+    bottom: 16,
+  },
 });
@@ -0,0 +1,92 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Lap } from "../types";
+import { colors } from "../theme/colors";
+import { formatTime } from "../utils/timeFormat";
+
+interface LapListProps {
+  laps: Lap[];
+}
+
+/**
+ * Stopwatch laps, newest first.
+ * Once there are two or more laps the fastest split is shown in green and
+ * the slowest in red.
+ */
+export function LapList({ laps }: LapListProps) {
+  if (laps.length === 0) return null;
+
+  const splits = laps.map((lap) => lap.split);
+  const fastest = Math.min(...splits);
+  const slowest = Math.max(...splits);
+
+  const getSplitColor = (split: number) => {
+    if (laps.length < 2) return colors.textPrimary;
+    if (split === fastest) return colors.green;
+    if (split === slowest) return colors.red;
+    return colors.textPrimary;
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={[styles.header, styles.lapColumn]}>Lap</Text>
+        <Text style={[styles.header, styles.timeColumn]}>Split</Text>
+        <Text style={[styles.header, styles.timeColumn]}>Total</Text>
+      </View>
+      {laps
+        .map((lap, i) => ({ lap, number: i + 1 }))
+        .reverse()
+        .map(({ lap, number }) => (
+          <View key={number} style={styles.row}>
+            <Text style={[styles.cell, styles.lapColumn]}>{number}</Text>
+            <Text
+              style={[
+                styles.cell,
+                styles.timeColumn,
+                { color: getSplitColor(lap.split) },
+              ]}
+            >
+              {formatTime(lap.split, true)}
+            </Text>
+            <Text style={[styles.cell, styles.timeColumn, styles.muted]}>
+              {formatTime(lap.elapsed, true)}
+            </Text>
+          </View>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.background,
+  },
+  header: {
+    fontFamily: "System",
+    fontSize: 11,
+    fontWeight: "600",
+    color: colors.textMuted,
+    textTransform: "uppercase",
+    letterSpacing: 1.5,
+  },
+  cell: {
+    fontFamily: "Digital7Mono",
+    fontSize: 20,
+    color: colors.textPrimary,
+  },
+  lapColumn: {
+    width: 48,
+  },
+  timeColumn: {
+    flex: 1,
+    textAlign: "right",
+  },
+  muted: {
+    color: colors.textMuted,
+  },
+});
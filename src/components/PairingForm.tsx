@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { colors } from "../theme/colors";
+import { ConnectionStatus } from "../network/controlClient";
+
+interface PairingFormProps {
+  status: ConnectionStatus | null;
+  onConnect: (code: string) => Promise<string | null>; // resolves to an error
+}
+
+const STATUS_MESSAGES: Record<ConnectionStatus, string | null> = {
+  connecting: "Connecting…",
+  connected: null,
+  denied: "Wrong code - check the display and try again",
+  disconnected: "Can't reach the display - check you're on the same Wi-Fi",
+};
+
+/** Enter the pairing code a display shows (@see pairing) */
+export function PairingForm({ status, onConnect }: PairingFormProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = async () => {
+    setError(await onConnect(code));
+  };
+
+  const message = error ?? (status ? STATUS_MESSAGES[status] : null);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.helpText}>
+        On the main clock, turn on "Allow Remote" in settings and enter the code
+        it shows.
+      </Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={code}
+          onChangeText={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          onSubmitEditing={connect}
+          placeholder="023 4817"
+          placeholderTextColor={colors.textMuted}
+          keyboardType="numbers-and-punctuation"
+          autoCorrect={false}
+          returnKeyType="go"
+        />
+        <TouchableOpacity
+          style={styles.connectButton}
+          onPress={connect}
+          disabled={status === "connecting"}
+        >
+          <Text style={styles.connectButtonText}>Connect</Text>
+        </TouchableOpacity>
+      </View>
+      {message && (
+        <Text style={error ? styles.errorText : styles.statusText}>
+          {message}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  helpText: {
+    fontFamily: "System",
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 18,
+    letterSpacing: 2,
+    color: colors.textPrimary,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: colors.background,
+    borderRadius: 12,
+  },
+  connectButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+    borderRadius: 12,
+    backgroundColor: colors.buttonSecondary,
+  },
+  connectButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  errorText: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.red,
+  },
+  statusText: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
@@ -6,6 +6,7 @@ import {
   TouchableOpacity,
   Dimensions,
   ScrollView,
+  Switch,
 } from "react-native";
 import {
   TimerMode,
@@ -13,40 +14,103 @@ import {
   TabataSettings,
   EmomSettings,
   AmrapSettings,
+  ForTimeSettings,
   CountdownSettings,
+  IntervalSettings,
+  RestSettings,
+  SoundSettings,
+  VoiceCue,
+  VoiceSettings,
+  Preset,
+  WorkoutConfig,
+  ColorTheme,
+  DisplayColor,
+  FlashMode,
+  FlashSettings,
+  ProgramBlock,
 } from "../types";
-import { colors } from "../theme/colors";
+import { colors, displayColors } from "../theme/colors";
+import { getDisplayColor } from "../theme/themes";
 import { LCDDisplay } from "./LCDDisplay";
+import { ProgressBar } from "./ProgressBar";
+import { IntervalBuilder } from "./IntervalBuilder";
+import { PresetList } from "./PresetList";
+import { WorkoutTextInput } from "./WorkoutTextInput";
+import { ShareWorkoutPanel } from "./ShareWorkoutPanel";
+import { AmrapSummary } from "./AmrapSummary";
+import { LapList } from "./LapList";
+import { ThemeSettings } from "./ThemeSettings";
+import { ProgramBuilder } from "./ProgramBuilder";
+import { RemoteHost } from "../hooks/useRemoteHost";
+import { getProgress } from "../utils/progress";
+import {
+  MODE_LABELS,
+  REST_DURATIONS,
+  TIMER_MODES,
+  describeWorkout,
+  getWorkoutConfig,
+} from "../utils/workoutConfig";
 import {
   formatStopwatch,
+  formatLastLap,
   formatCountdown,
   formatTabata,
   formatEmom,
   formatAmrap,
+  formatAmrapRounds,
+  getAmrapSplits,
+  formatForTime,
+  formatIntervals,
+  formatRest,
   formatClock,
   formatIntroCountdown,
+  formatSeconds,
 } from "../utils/timeFormat";
 
 interface PortraitSettingsProps {
   state: TimerState;
+  theme: ColorTheme;
+  onThemeChange: (theme: ColorTheme) => void;
   onModeChange: (mode: TimerMode) => void;
   onCountdownChange: (settings: CountdownSettings) => void;
   onTabataChange: (settings: TabataSettings) => void;
   onEmomChange: (settings: EmomSettings) => void;
   onAmrapChange: (settings: AmrapSettings) => void;
+  onForTimeChange: (settings: ForTimeSettings) => void;
+  onIntervalsChange: (settings: IntervalSettings) => void;
+  onRestChange: (settings: RestSettings) => void;
   onCountdownIntroChange: (seconds: number) => void;
+  onHapticsChange: (enabled: boolean) => void;
+  onSoundChange: (settings: SoundSettings) => void;
+  onVoiceChange: (settings: VoiceSettings) => void;
+  onFlashChange: (settings: FlashSettings) => void;
+  presets: Preset[];
+  onSavePreset: (name: string) => void;
+  onLoadPreset: (preset: Preset) => void;
+  onRenamePreset: (id: string, name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onOpenHistory: () => void;
+  onApplyWorkout: (config: WorkoutConfig) => void;
+  program: ProgramBlock[]; // being put together, not necessarily loaded
+  onProgramChange: (blocks: ProgramBlock[]) => void;
+  onRunProgram: () => void;
+  onEndProgram: () => void;
+  isRemoteHostEnabled: boolean;
+  remoteHost: RemoteHost;
+  onRemoteHostChange: (enabled: boolean) => void;
+  onOpenRemote: () => void; // use this device as a remote for another
+  onOpenFollower: () => void; // mirror another device's clock
   onStart: () => void;
   onReset: () => void;
+  onLap: () => void;
+  onFinish: () => void;
+  onStartRest: () => void;
 }
 
-const MODES: { value: TimerMode; label: string }[] = [
-  { value: "clock", label: "Clock" },
-  { value: "stopwatch", label: "Stopwatch" },
-  { value: "countdown", label: "Timer" },
-  { value: "tabata", label: "Tabata" },
-  { value: "emom", label: "EMOM" },
-  { value: "amrap", label: "AMRAP" },
-];
+const MODES = TIMER_MODES.map((value) => ({
+  value,
+  label: MODE_LABELS[value],
+}));
 
 interface NumberPickerProps {
   value: number;
@@ -58,6 +122,17 @@ interface NumberPickerProps {
   format?: (value: number) => string;
 }
 
+/**
+ * The next multiple of `step` below or above `value` (direction -1 or 1).
+ * A value that's off the grid (saved or imported that way) snaps to the
+ * nearest multiple on that side, rather than staying off it for good.
+ */
+function stepValue(value: number, step: number, direction: -1 | 1): number {
+  const steps = value / step;
+  const snapped = direction === 1 ? Math.floor(steps) : Math.ceil(steps);
+  return (snapped + direction) * step;
+}
+
 function NumberPicker({
   value,
   onChange,
@@ -75,14 +150,14 @@ function NumberPicker({
       <View style={styles.pickerControls}>
         <TouchableOpacity
           style={styles.pickerButton}
-          onPress={() => onChange(Math.max(min, value - step))}
+          onPress={() => onChange(Math.max(min, stepValue(value, step, -1)))}
         >
           <Text style={styles.pickerButtonText}>−</Text>
         </TouchableOpacity>
         <Text style={styles.pickerValue}>{displayValue}</Text>
         <TouchableOpacity
           style={styles.pickerButton}
-          onPress={() => onChange(Math.min(max, value + step))}
+          onPress={() => onChange(Math.min(max, stepValue(value, step, 1)))}
         >
           <Text style={styles.pickerButtonText}>+</Text>
         </TouchableOpacity>
@@ -91,22 +166,64 @@ function NumberPicker({
   );
 }
 
-function formatSeconds(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
+interface ToggleRowProps {
+  value: boolean;
+  onChange: (value: boolean) => void;
+  label: string;
+}
+
+function ToggleRow({ value, onChange, label }: ToggleRowProps) {
+  return (
+    <View style={styles.pickerContainer}>
+      <Text style={styles.pickerLabel}>{label}</Text>
+      <Switch
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ false: colors.buttonSecondary, true: colors.green }}
+        thumbColor={colors.white}
+      />
+    </View>
+  );
 }
 
 export function PortraitSettings({
   state,
+  theme,
+  onThemeChange,
   onModeChange,
   onCountdownChange,
   onTabataChange,
   onEmomChange,
   onAmrapChange,
+  onForTimeChange,
+  onIntervalsChange,
+  onRestChange,
   onCountdownIntroChange,
+  onSoundChange,
+  onVoiceChange,
+  onHapticsChange,
+  onFlashChange,
+  presets,
+  onSavePreset,
+  onLoadPreset,
+  onRenamePreset,
+  onDeletePreset,
+  onOpenHistory,
+  onApplyWorkout,
+  program,
+  onProgramChange,
+  onRunProgram,
+  onEndProgram,
+  isRemoteHostEnabled,
+  remoteHost,
+  onRemoteHostChange,
+  onOpenRemote,
+  onOpenFollower,
   onStart,
   onReset,
+  onLap,
+  onFinish,
+  onStartRest,
 }: PortraitSettingsProps) {
   const [clockTime, setClockTime] = useState(formatClock());
   const { width } = Dimensions.get("window");
@@ -124,30 +241,38 @@ export function PortraitSettings({
   const getDisplayTime = (): {
     time: string;
     sub?: { left: string; right: string };
-    color: "red" | "blue" | "green" | "yellow";
+    color: DisplayColor;
   } => {
+    const color = getDisplayColor(state, theme);
+
     // Show countdown intro if active
     if (state.isInCountdownIntro) {
       return {
         time: formatIntroCountdown(state),
         sub: { left: "GET READY", right: "" },
-        color: "yellow",
+        color,
       };
     }
 
     switch (state.mode) {
       case "clock":
-        return { time: clockTime, color: "blue" };
-      case "stopwatch":
-        return { time: formatStopwatch(state), color: "red" };
+        return { time: clockTime, color };
+      case "stopwatch": {
+        const lap = formatLastLap(state);
+        return {
+          time: formatStopwatch(state),
+          sub: lap ? { left: lap.lap, right: lap.split } : undefined,
+          color,
+        };
+      }
       case "countdown":
-        return { time: formatCountdown(state), color: "red" };
+        return { time: formatCountdown(state), color };
       case "tabata": {
         const tabata = formatTabata(state);
         return {
           time: tabata.time,
           sub: { left: tabata.phase, right: tabata.round },
-          color: state.isWorkPhase ? "green" : "red",
+          color,
         };
       }
       case "emom": {
@@ -155,33 +280,60 @@ export function PortraitSettings({
         return {
           time: emom.time,
           sub: { left: "EMOM", right: emom.minute },
-          color: "blue",
+          color,
         };
       }
       case "amrap":
         return {
           time: formatAmrap(state),
-          sub: { left: "AMRAP", right: "" },
-          color: "yellow",
+          sub: { left: "AMRAP", right: formatAmrapRounds(state) },
+          color,
+        };
+      case "fortime": {
+        const forTime = formatForTime(state);
+        return {
+          time: forTime.time,
+          sub: {
+            left: "FOR TIME",
+            right:
+              forTime.rounds ||
+              forTime.status ||
+              `CAP ${formatSeconds(state.fortime.timeCap)}`,
+          },
+          color,
+        };
+      }
+      case "intervals": {
+        const intervals = formatIntervals(state);
+        return {
+          time: intervals.time,
+          sub: { left: intervals.label, right: intervals.segment },
+          color,
+        };
+      }
+      case "rest": {
+        const rest = formatRest(state);
+        return {
+          time: rest.time,
+          sub: { left: rest.set, right: rest.session },
+          color,
         };
+      }
       default:
-        return { time: "00:00", color: "red" };
+        return { time: "00:00", color };
     }
   };
 
   const display = getDisplayTime();
+  const progress = theme.showProgress ? getProgress(state) : null;
   const showControls = state.mode !== "clock";
   const clockFontSize = Math.min(width * 0.22, 140);
 
-  const colorMap = {
-    red: colors.red,
-    blue: colors.blue,
-    green: colors.green,
-    yellow: colors.yellow,
-  };
-
   const renderSettings = () => {
     switch (state.mode) {
+      case "stopwatch":
+        return <LapList laps={state.laps} />;
+
       case "countdown":
         return (
           <NumberPicker
@@ -224,60 +376,376 @@ export function PortraitSettings({
               step={1}
               label="Rounds"
             />
+            <NumberPicker
+              value={state.tabata.sets}
+              onChange={(v) => onTabataChange({ ...state.tabata, sets: v })}
+              min={1}
+              max={10}
+              step={1}
+              label="Sets"
+            />
+            {state.tabata.sets > 1 && (
+              <NumberPicker
+                value={state.tabata.setRest}
+                onChange={(v) =>
+                  onTabataChange({ ...state.tabata, setRest: v })
+                }
+                min={0}
+                max={600}
+                step={15}
+                label="Set Rest"
+                format={formatSeconds}
+              />
+            )}
+            <ToggleRow
+              value={state.tabata.skipLastRest}
+              onChange={(v) =>
+                onTabataChange({ ...state.tabata, skipLastRest: v })
+              }
+              label="Skip Last Rest"
+            />
+            <NumberPicker
+              value={state.tabata.coolDown}
+              onChange={(v) => onTabataChange({ ...state.tabata, coolDown: v })}
+              min={0}
+              max={600}
+              step={30}
+              label="Cool Down"
+              format={formatSeconds}
+            />
           </>
         );
 
       case "emom":
         return (
-          <NumberPicker
-            value={state.emom.totalMinutes}
-            onChange={(v) => onEmomChange({ ...state.emom, totalMinutes: v })}
-            min={1}
-            max={60}
-            step={1}
-            label="Minutes"
-          />
+          <>
+            <NumberPicker
+              value={state.emom.intervalTime}
+              onChange={(v) => onEmomChange({ ...state.emom, intervalTime: v })}
+              min={15}
+              max={600}
+              step={15}
+              label="Every"
+              format={formatSeconds}
+            />
+            <NumberPicker
+              value={state.emom.rounds}
+              onChange={(v) => onEmomChange({ ...state.emom, rounds: v })}
+              min={1}
+              max={60}
+              step={1}
+              label="Rounds"
+              format={(v) =>
+                `${v} (${formatSeconds(v * state.emom.intervalTime)})`
+              }
+            />
+          </>
         );
 
       case "amrap":
+        return (
+          <>
+            <NumberPicker
+              value={state.amrap.totalTime}
+              onChange={(v) => onAmrapChange({ totalTime: v })}
+              min={60}
+              max={3600}
+              step={60}
+              label="Duration"
+              format={formatSeconds}
+            />
+            {state.amrapRounds.length > 0 && (
+              <View style={styles.summaryContainer}>
+                <AmrapSummary splits={getAmrapSplits(state)} />
+              </View>
+            )}
+          </>
+        );
+
+      case "fortime":
         return (
           <NumberPicker
-            value={state.amrap.totalTime}
-            onChange={(v) => onAmrapChange({ totalTime: v })}
+            value={state.fortime.timeCap}
+            onChange={(v) => onForTimeChange({ timeCap: v })}
             min={60}
             max={3600}
             step={60}
-            label="Duration"
+            label="Time Cap"
             format={formatSeconds}
           />
         );
 
+      case "intervals":
+        return (
+          <>
+            <IntervalBuilder
+              segments={state.intervals.segments}
+              onChange={(segments) =>
+                onIntervalsChange({ ...state.intervals, segments })
+              }
+            />
+            <NumberPicker
+              value={state.intervals.repeat}
+              onChange={(v) =>
+                onIntervalsChange({ ...state.intervals, repeat: v })
+              }
+              min={1}
+              max={20}
+              step={1}
+              label="Repeat"
+              format={(v) => `x${v}`}
+            />
+          </>
+        );
+
+      case "rest":
+        return (
+          <>
+            <View style={[styles.segmentedControl, styles.restDurations]}>
+              {REST_DURATIONS.map((duration) => (
+                <TouchableOpacity
+                  key={duration}
+                  style={[
+                    styles.segment,
+                    state.rest.duration === duration && styles.segmentActive,
+                  ]}
+                  onPress={() => onRestChange({ duration })}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      state.rest.duration === duration &&
+                        styles.segmentTextActive,
+                    ]}
+                  >
+                    {formatSeconds(duration)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <NumberPicker
+              value={state.rest.duration}
+              onChange={(v) => onRestChange({ duration: v })}
+              min={15}
+              max={600}
+              step={15}
+              label="Rest"
+              format={formatSeconds}
+            />
+          </>
+        );
+
       default:
         return null;
     }
   };
 
-  // Render the countdown intro picker (shared across modes that support it)
+  // Render the countdown intro picker and vibration toggle (shared across
+  // modes that support them - rests start straight away, so only vibrate)
   const renderIntroSetting = () => {
     const supportsIntro = !["clock", "stopwatch"].includes(state.mode);
     if (!supportsIntro) return null;
 
     return (
-      <NumberPicker
-        value={state.countdownIntro}
-        onChange={onCountdownIntroChange}
-        min={0}
-        max={10}
-        step={1}
-        label="Start Delay"
-        format={(v) => `0:${v.toString().padStart(2, "0")}`}
-      />
+      <>
+        {state.mode !== "rest" && (
+          <NumberPicker
+            value={state.countdownIntro}
+            onChange={onCountdownIntroChange}
+            min={0}
+            max={10}
+            step={1}
+            label="Start Delay"
+            format={(v) => `0:${v.toString().padStart(2, "0")}`}
+          />
+        )}
+        <ToggleRow
+          value={state.haptics}
+          onChange={onHapticsChange}
+          label="Vibrate"
+        />
+      </>
     );
   };
 
-  const hasSettings = ["countdown", "tabata", "emom", "amrap"].includes(
-    state.mode
-  );
+  // Render the audio cue settings (modes that beep are the ones with an intro)
+  const renderSoundSettings = () => {
+    const supportsSound = !["clock", "stopwatch"].includes(state.mode);
+    if (!supportsSound) return null;
+
+    return (
+      <>
+        <ToggleRow
+          value={!state.sound.muted}
+          onChange={(v) => onSoundChange({ ...state.sound, muted: !v })}
+          label="Sound"
+        />
+        {!state.sound.muted && (
+          <>
+            <NumberPicker
+              value={state.sound.volume}
+              onChange={(v) => onSoundChange({ ...state.sound, volume: v })}
+              min={0}
+              max={100}
+              step={10}
+              label="Volume"
+              format={(v) => `${v}%`}
+            />
+            <ToggleRow
+              value={state.sound.finalCountdown}
+              onChange={(v) =>
+                onSoundChange({ ...state.sound, finalCountdown: v })
+              }
+              label="Last 10s Pips"
+            />
+          </>
+        )}
+      </>
+    );
+  };
+
+  // Render the spoken announcement settings (muting sound silences voice too)
+  const renderVoiceSettings = () => {
+    const supportsVoice = !["clock", "stopwatch"].includes(state.mode);
+    if (!supportsVoice || state.sound.muted) return null;
+
+    const { voice } = state;
+    const hasRounds = ["tabata", "emom", "intervals"].includes(state.mode);
+    const hasRemaining = ["countdown", "amrap"].includes(state.mode);
+    const isRest = state.mode === "rest";
+    const setCue = (cue: VoiceCue, value: boolean) =>
+      onVoiceChange({ ...voice, cues: { ...voice.cues, [cue]: value } });
+
+    return (
+      <>
+        <ToggleRow
+          value={voice.enabled}
+          onChange={(v) => onVoiceChange({ ...voice, enabled: v })}
+          label="Voice"
+        />
+        {voice.enabled && (
+          <>
+            {!isRest && (
+              <ToggleRow
+                value={voice.cues.start}
+                onChange={(v) => setCue("start", v)}
+                label={'Say "Go"'}
+              />
+            )}
+            {hasRounds && (
+              <ToggleRow
+                value={voice.cues.rounds}
+                onChange={(v) => setCue("rounds", v)}
+                label="Call Rounds"
+              />
+            )}
+            {!isRest && (
+              <ToggleRow
+                value={voice.cues.halfway}
+                onChange={(v) => setCue("halfway", v)}
+                label="Call Halfway"
+              />
+            )}
+            {hasRemaining && (
+              <>
+                <ToggleRow
+                  value={voice.cues.remaining}
+                  onChange={(v) => setCue("remaining", v)}
+                  label="Minutes Remaining"
+                />
+                {voice.cues.remaining && (
+                  <NumberPicker
+                    value={voice.remainingEvery}
+                    onChange={(v) =>
+                      onVoiceChange({ ...voice, remainingEvery: v })
+                    }
+                    min={1}
+                    max={10}
+                    step={1}
+                    label="Every"
+                    format={(v) => `${v} min`}
+                  />
+                )}
+              </>
+            )}
+            <ToggleRow
+              value={voice.cues.finish}
+              onChange={(v) => setCue("finish", v)}
+              label={isRest ? 'Say "Next Set"' : 'Say "Time"'}
+            />
+          </>
+        )}
+      </>
+    );
+  };
+
+  // The code a remote types in to pair with this device
+  const renderRemoteHost = () => {
+    if (remoteHost.error) {
+      return <Text style={styles.remoteError}>{remoteHost.error}</Text>;
+    }
+    if (!remoteHost.pairingCode) return null;
+
+    return (
+      <View style={styles.pairingContainer}>
+        <Text style={styles.pairingCode}>{remoteHost.pairingCode}</Text>
+        <Text style={styles.pairingStatus}>
+          {remoteHost.remoteCount === 0
+            ? "Enter this code on a remote or another display"
+            : `${remoteHost.remoteCount} device${
+                remoteHost.remoteCount === 1 ? "" : "s"
+              } connected`}
+        </Text>
+      </View>
+    );
+  };
+
+  // Render the screen flash settings (the flash shows in landscape)
+  const renderFlashSettings = () => {
+    if (!(state.mode in state.flash.modes)) return null;
+
+    const { flash } = state;
+    const mode = state.mode as FlashMode;
+    const hasPhases = mode === "tabata" || mode === "intervals";
+
+    return (
+      <>
+        <ToggleRow
+          value={flash.modes[mode]}
+          onChange={(v) =>
+            onFlashChange({ ...flash, modes: { ...flash.modes, [mode]: v } })
+          }
+          label="Flash Screen"
+        />
+        {hasPhases && (
+          <ToggleRow
+            value={flash.phaseTint}
+            onChange={(v) => onFlashChange({ ...flash, phaseTint: v })}
+            label="Phase Tint"
+          />
+        )}
+        {(flash.modes[mode] || hasPhases) && (
+          <ToggleRow
+            value={flash.reducedMotion}
+            onChange={(v) => onFlashChange({ ...flash, reducedMotion: v })}
+            label="Reduce Motion"
+          />
+        )}
+      </>
+    );
+  };
+
+  const hasSettings =
+    [
+      "countdown",
+      "tabata",
+      "emom",
+      "amrap",
+      "fortime",
+      "intervals",
+      "rest",
+    ].includes(state.mode) ||
+    (state.mode === "stopwatch" && state.laps.length > 0);
   const hasIntroSetting = !["clock", "stopwatch"].includes(state.mode);
 
   return (
@@ -290,7 +758,9 @@ export function PortraitSettings({
               style={[
                 styles.subText,
                 {
-                  color: display.sub ? colorMap[display.color] : "transparent",
+                  color: display.sub
+                    ? displayColors[display.color].active
+                    : "transparent",
                 },
               ]}
             >
@@ -300,7 +770,9 @@ export function PortraitSettings({
               style={[
                 styles.subText,
                 {
-                  color: display.sub ? colorMap[display.color] : "transparent",
+                  color: display.sub
+                    ? displayColors[display.color].active
+                    : "transparent",
                 },
               ]}
             >
@@ -312,11 +784,26 @@ export function PortraitSettings({
             color={display.color}
             fontSize={clockFontSize}
           />
+          {progress && (
+            <View style={styles.progress}>
+              <ProgressBar
+                progress={progress}
+                color={display.color}
+                width={width * 0.7}
+                height={8}
+              />
+            </View>
+          )}
         </View>
       </View>
 
       {/* Bottom Controls Area - Fixed at bottom */}
       <View style={styles.bottomControls}>
+        {/* Typed workout, e.g. "tabata 8x20/10" */}
+        <View style={styles.section}>
+          <WorkoutTextInput onApply={onApplyWorkout} />
+        </View>
+
         {/* Mode Selector - Segmented Control Style */}
         <View style={styles.section}>
           <Text style={styles.sectionLabel}>Mode</Text>
@@ -352,11 +839,98 @@ export function PortraitSettings({
                 <View style={styles.settingsCard}>
                   {renderSettings()}
                   {renderIntroSetting()}
+                  {renderSoundSettings()}
+                  {renderVoiceSettings()}
+                  {renderFlashSettings()}
                 </View>
               </>
             ) : (
               <View style={styles.settingsPlaceholder} />
             )}
+
+            <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+              Display Colors
+            </Text>
+            <View style={styles.settingsCard}>
+              <ThemeSettings theme={theme} onChange={onThemeChange} />
+            </View>
+
+            <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+              Saved Workouts
+            </Text>
+            <View style={styles.settingsCard}>
+              <PresetList
+                presets={presets}
+                defaultName={describeWorkout(getWorkoutConfig(state))}
+                onSave={onSavePreset}
+                onLoad={onLoadPreset}
+                onRename={onRenamePreset}
+                onDelete={onDeletePreset}
+              />
+            </View>
+
+            <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+              Program
+            </Text>
+            <View style={styles.settingsCard}>
+              <ProgramBuilder
+                blocks={program}
+                onChange={onProgramChange}
+                currentWorkout={
+                  hasIntroSetting && state.mode !== "rest"
+                    ? getWorkoutConfig(state)
+                    : null
+                }
+                currentIntro={state.countdownIntro}
+                isRunning={state.program.length > 0}
+                onRun={onRunProgram}
+                onEnd={onEndProgram}
+              />
+            </View>
+
+            <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+              Share
+            </Text>
+            <View style={styles.settingsCard}>
+              <ShareWorkoutPanel
+                config={getWorkoutConfig(state)}
+                onLoad={onApplyWorkout}
+              />
+            </View>
+
+            <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+              Remote Control & Sync
+            </Text>
+            <View style={styles.settingsCard}>
+              <ToggleRow
+                value={isRemoteHostEnabled}
+                onChange={onRemoteHostChange}
+                label="Allow Remote"
+              />
+              {isRemoteHostEnabled && renderRemoteHost()}
+              <View style={styles.remoteButtonRow}>
+                <TouchableOpacity
+                  style={styles.remoteButton}
+                  onPress={onOpenRemote}
+                >
+                  <Text style={styles.remoteButtonText}>Use as Remote</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.remoteButton}
+                  onPress={onOpenFollower}
+                >
+                  <Text style={styles.remoteButtonText}>Follow a Display</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={onOpenHistory}
+            >
+              <Text style={styles.historyButtonText}>Workout History</Text>
+              <Text style={styles.historyButtonArrow}>›</Text>
+            </TouchableOpacity>
           </ScrollView>
         </View>
 
@@ -381,9 +955,30 @@ export function PortraitSettings({
                 </Text>
               </TouchableOpacity>
 
-              <TouchableOpacity style={styles.resetButton} onPress={onReset}>
-                <Text style={styles.resetButtonText}>Reset</Text>
-              </TouchableOpacity>
+              {/* Stopwatch swaps Reset for Lap while running, For Time for
+                  Done, and rest mode for Rest once a set is done */}
+              {state.mode === "stopwatch" && state.isRunning ? (
+                <TouchableOpacity style={styles.resetButton} onPress={onLap}>
+                  <Text style={styles.resetButtonText}>Lap</Text>
+                </TouchableOpacity>
+              ) : state.mode === "rest" && state.isRunning ? (
+                <TouchableOpacity
+                  style={styles.resetButton}
+                  onPress={onStartRest}
+                >
+                  <Text style={styles.resetButtonText}>Rest</Text>
+                </TouchableOpacity>
+              ) : state.mode === "fortime" &&
+                state.isRunning &&
+                !state.isInCountdownIntro ? (
+                <TouchableOpacity style={styles.resetButton} onPress={onFinish}>
+                  <Text style={styles.resetButtonText}>Done</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.resetButton} onPress={onReset}>
+                  <Text style={styles.resetButtonText}>Reset</Text>
+                </TouchableOpacity>
+              )}
             </>
           ) : (
             <View style={styles.buttonPlaceholder} />
@@ -453,6 +1048,9 @@ const styles = StyleSheet.create({
     letterSpacing: 1.5,
     marginBottom: 12,
   },
+  subsectionLabel: {
+    marginTop: 16,
+  },
   segmentedControl: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -480,11 +1078,84 @@ const styles = StyleSheet.create({
   segmentTextActive: {
     color: colors.textPrimary,
   },
+  progress: {
+    marginTop: 12,
+  },
+  restDurations: {
+    backgroundColor: colors.background,
+    marginBottom: 8,
+  },
   settingsCard: {
     backgroundColor: colors.surface,
     borderRadius: 16,
     padding: 20,
   },
+  historyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    marginTop: 16,
+  },
+  historyButtonText: {
+    fontFamily: "System",
+    fontSize: 15,
+    fontWeight: "500",
+    color: colors.textPrimary,
+  },
+  historyButtonArrow: {
+    fontSize: 20,
+    color: colors.textMuted,
+  },
+  pairingContainer: {
+    alignItems: "center",
+    paddingVertical: 16,
+    gap: 4,
+  },
+  pairingCode: {
+    fontFamily: "Technology",
+    fontSize: 40,
+    color: colors.textPrimary,
+    letterSpacing: 4,
+  },
+  pairingStatus: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  remoteError: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.red,
+    paddingVertical: 12,
+  },
+  remoteButtonRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  remoteButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+  },
+  remoteButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  summaryContainer: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.background,
+  },
   pickerContainer: {
     flexDirection: "row",
     alignItems: "center",
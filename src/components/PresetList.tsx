@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { Preset } from "../types";
+import { colors } from "../theme/colors";
+import { describeWorkout } from "../utils/workoutConfig";
+
+interface PresetListProps {
+  presets: Preset[];
+  defaultName: string; // used when saving without typing a name
+  onSave: (name: string) => void;
+  onLoad: (preset: Preset) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Saved workouts library.
+ * Save the current setup under a name, tap a preset to load it, or
+ * rename/delete it from its row.
+ */
+export function PresetList({
+  presets,
+  defaultName,
+  onSave,
+  onLoad,
+  onRename,
+  onDelete,
+}: PresetListProps) {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const save = () => {
+    onSave(newName.trim() || defaultName);
+    setNewName("");
+  };
+
+  const startRename = (preset: Preset) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <View>
+      <View style={styles.saveRow}>
+        <TextInput
+          style={styles.nameInput}
+          value={newName}
+          onChangeText={setNewName}
+          onSubmitEditing={save}
+          placeholder={defaultName}
+          placeholderTextColor={colors.textMuted}
+          returnKeyType="done"
+        />
+        <TouchableOpacity style={styles.actionButton} onPress={save}>
+          <Text style={styles.actionButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      {presets.length === 0 && (
+        <Text style={styles.emptyText}>No saved workouts yet</Text>
+      )}
+
+      {presets.map((preset) =>
+        preset.id === editingId ? (
+          <View key={preset.id} style={styles.presetRow}>
+            <TextInput
+              style={styles.nameInput}
+              value={editingName}
+              onChangeText={setEditingName}
+              onSubmitEditing={finishRename}
+              autoFocus
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={finishRename}
+            >
+              <Text style={styles.actionButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View key={preset.id} style={styles.presetRow}>
+            <TouchableOpacity
+              style={styles.presetInfo}
+              onPress={() => onLoad(preset)}
+            >
+              <Text style={styles.presetName} numberOfLines={1}>
+                {preset.name}
+              </Text>
+              <Text style={styles.presetSummary} numberOfLines={1}>
+                {describeWorkout(preset.config)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.smallButton}
+              onPress={() => startRename(preset)}
+            >
+              <Text style={styles.smallButtonText}>✎</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.smallButton}
+              onPress={() => onDelete(preset.id)}
+            >
+              <Text style={styles.smallButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  saveRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingBottom: 12,
+  },
+  nameInput: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 15,
+    color: colors.textPrimary,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    backgroundColor: colors.background,
+    borderRadius: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+  },
+  actionButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  emptyText: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textMuted,
+    paddingVertical: 8,
+  },
+  presetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.background,
+  },
+  presetInfo: {
+    flex: 1,
+  },
+  presetName: {
+    fontFamily: "System",
+    fontSize: 15,
+    fontWeight: "500",
+    color: colors.textPrimary,
+  },
+  presetSummary: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  smallButton: {
+    width: 32,
+    height: 32,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  smallButtonText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,276 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { ProgramBlock, WorkoutConfig } from "../types";
+import { colors } from "../theme/colors";
+import { createId } from "../utils/id";
+import { formatSeconds } from "../utils/timeFormat";
+import { describeWorkout } from "../utils/workoutConfig";
+import { getBlockLetter } from "../utils/program";
+
+interface ProgramBuilderProps {
+  blocks: ProgramBlock[];
+  onChange: (blocks: ProgramBlock[]) => void;
+  currentWorkout: WorkoutConfig | null; // null when it can't be a block
+  currentIntro: number; // seconds, for new blocks
+  isRunning: boolean; // the program is loaded in the timer
+  onRun: () => void;
+  onEnd: () => void;
+}
+
+const MAX_INTRO = 10;
+const MAX_REST = 600;
+const REST_STEP = 15;
+
+interface StepperProps {
+  label: string;
+  value: number; // seconds
+  onChange: (value: number) => void;
+  max: number;
+  step: number;
+}
+
+function Stepper({ label, value, onChange, max, step }: StepperProps) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <TouchableOpacity
+        style={styles.smallButton}
+        onPress={() => onChange(Math.max(0, value - step))}
+      >
+        <Text style={styles.smallButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{formatSeconds(value)}</Text>
+      <TouchableOpacity
+        style={styles.smallButton}
+        onPress={() => onChange(Math.min(max, value + step))}
+      >
+        <Text style={styles.smallButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/**
+ * Editable list of program blocks, run back to back.
+ * Blocks are added from the workout currently set up above, then each row
+ * sets the block's intro and the rest after it, or moves/deletes it.
+ */
+export function ProgramBuilder({
+  blocks,
+  onChange,
+  currentWorkout,
+  currentIntro,
+  isRunning,
+  onRun,
+  onEnd,
+}: ProgramBuilderProps) {
+  const updateBlock = (index: number, changes: Partial<ProgramBlock>) => {
+    onChange(
+      blocks.map((block, i) => (i === index ? { ...block, ...changes } : block))
+    );
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= blocks.length) return;
+
+    const reordered = [...blocks];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const deleteBlock = (index: number) => {
+    onChange(blocks.filter((_, i) => i !== index));
+  };
+
+  const addBlock = () => {
+    if (!currentWorkout) return;
+    onChange([
+      ...blocks,
+      {
+        id: createId(),
+        config: currentWorkout,
+        intro: currentIntro,
+        restAfter: 0,
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      {blocks.map((block, index) => (
+        <View key={block.id} style={styles.blockRow}>
+          <View style={styles.blockLine}>
+            <Text style={styles.blockLetter}>{getBlockLetter(index)}</Text>
+            <Text style={styles.blockName} numberOfLines={1}>
+              {describeWorkout(block.config)}
+            </Text>
+            <View style={styles.orderControls}>
+              <TouchableOpacity
+                style={[styles.smallButton, index === 0 && styles.disabled]}
+                onPress={() => moveBlock(index, -1)}
+                disabled={index === 0}
+              >
+                <Text style={styles.smallButtonText}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.smallButton,
+                  index === blocks.length - 1 && styles.disabled,
+                ]}
+                onPress={() => moveBlock(index, 1)}
+                disabled={index === blocks.length - 1}
+              >
+                <Text style={styles.smallButtonText}>↓</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => deleteBlock(index)}
+              >
+                <Text style={styles.smallButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.blockLine}>
+            <Stepper
+              label="Intro"
+              value={block.intro}
+              onChange={(intro) => updateBlock(index, { intro })}
+              max={MAX_INTRO}
+              step={1}
+            />
+            {/* Nothing follows the last block to rest before */}
+            {index < blocks.length - 1 && (
+              <Stepper
+                label="Rest"
+                value={block.restAfter}
+                onChange={(restAfter) => updateBlock(index, { restAfter })}
+                max={MAX_REST}
+                step={REST_STEP}
+              />
+            )}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.addButton, !currentWorkout && styles.disabled]}
+        onPress={addBlock}
+        disabled={!currentWorkout}
+      >
+        <Text style={styles.addButtonText}>+ Add Current Workout</Text>
+      </TouchableOpacity>
+
+      {isRunning ? (
+        <TouchableOpacity style={styles.runButton} onPress={onEnd}>
+          <Text style={styles.runButtonText}>End Program</Text>
+        </TouchableOpacity>
+      ) : (
+        blocks.length > 0 && (
+          <TouchableOpacity style={styles.runButton} onPress={onRun}>
+            <Text style={styles.runButtonText}>Load Program</Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  blockRow: {
+    paddingVertical: 12,
+    gap: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.background,
+  },
+  blockLine: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  blockLetter: {
+    fontFamily: "System",
+    fontSize: 15,
+    fontWeight: "700",
+    color: colors.textSecondary,
+  },
+  blockName: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  orderControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepperLabel: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  stepperValue: {
+    fontFamily: "System",
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    minWidth: 40,
+    textAlign: "center",
+  },
+  smallButton: {
+    width: 32,
+    height: 32,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  smallButtonText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  addButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.buttonSecondary,
+    alignItems: "center",
+  },
+  addButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "500",
+    color: colors.textSecondary,
+    textTransform: "uppercase",
+  },
+  runButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+    alignItems: "center",
+  },
+  runButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+});
@@ -0,0 +1,108 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { DisplayColor } from "../types";
+import { colors, displayColors } from "../theme/colors";
+import { WorkoutProgress } from "../utils/progress";
+
+interface ProgressBarProps {
+  progress: WorkoutProgress;
+  color: DisplayColor;
+  width: number;
+  height?: number; // of the workout bar; the phase bar is half this
+}
+
+/** Cells in the workout bar, like the segments of an LCD */
+const CELLS = 40;
+
+/**
+ * LCD-style progress under the digits: a thin bar for the current phase
+ * over a segmented bar for the whole workout. Unlit cells show faintly, the
+ * way the unused segments of the digits do, and ticks mark where each round
+ * starts.
+ */
+export function ProgressBar({
+  progress,
+  color,
+  width,
+  height = 12,
+}: ProgressBarProps) {
+  const { active } = displayColors[color];
+  const litCells = Math.floor(progress.overall * CELLS);
+
+  return (
+    <View style={[styles.container, { width }]}>
+      {progress.phase !== null && (
+        <View style={[styles.phaseTrack, { height: height / 2 }]}>
+          <View
+            style={[
+              styles.phaseFill,
+              { width: `${progress.phase * 100}%`, backgroundColor: active },
+            ]}
+          />
+        </View>
+      )}
+
+      {progress.ticks.length > 0 && (
+        <View style={styles.ticks}>
+          {progress.ticks.map((tick) => (
+            <View
+              key={tick}
+              style={[
+                styles.tick,
+                {
+                  left: `${tick * 100}%`,
+                  backgroundColor:
+                    tick <= progress.overall ? active : colors.segmentOff,
+                },
+              ]}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={[styles.cells, { height }]}>
+        {Array.from({ length: CELLS }, (_, i) => (
+          <View
+            key={i}
+            style={[
+              styles.cell,
+              { backgroundColor: i < litCells ? active : colors.segmentOff },
+            ]}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  phaseTrack: {
+    borderRadius: 2,
+    backgroundColor: colors.segmentOff,
+    overflow: "hidden",
+  },
+  phaseFill: {
+    height: "100%",
+  },
+  ticks: {
+    height: 6,
+  },
+  tick: {
+    position: "absolute",
+    top: 0,
+    width: 2,
+    height: 6,
+    marginLeft: -1,
+  },
+  cells: {
+    flexDirection: "row",
+    gap: 2,
+  },
+  cell: {
+    flex: 1,
+    borderRadius: 1,
+  },
+});
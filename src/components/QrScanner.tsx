@@ -0,0 +1,108 @@
+import React, { useRef } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { colors } from "../theme/colors";
+
+interface QrScannerProps {
+  onScan: (data: string) => void; // called once, with the first code seen
+  onClose: () => void;
+}
+
+/** Full-screen camera that reads a single QR code */
+export function QrScanner({ onScan, onClose }: QrScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const hasScannedRef = useRef(false); // The camera reports the same code many times
+
+  const renderBody = () => {
+    if (!permission) {
+      return null;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>
+            Camera access is needed to scan a workout code
+          </Text>
+          {permission.canAskAgain && (
+            <TouchableOpacity style={styles.button} onPress={requestPermission}>
+              <Text style={styles.buttonText}>Allow Camera</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+    return (
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+        onBarcodeScanned={({ data }) => {
+          if (hasScannedRef.current) return;
+          hasScannedRef.current = true;
+          onScan(data);
+        }}
+      />
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {renderBody()}
+      <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+        <Text style={styles.closeButtonText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  camera: {
+    flex: 1,
+  },
+  message: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+    gap: 16,
+  },
+  messageText: {
+    fontFamily: "System",
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: "center",
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+  },
+  buttonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  closeButton: {
+    position: "absolute",
+    top: 56,
+    right: 20,
+    width: 40,
+    height: 40,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+});
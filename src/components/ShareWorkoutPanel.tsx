@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Share,
+} from "react-native";
+import QRCode from "react-native-qrcode-svg";
+import { WorkoutConfig } from "../types";
+import { colors } from "../theme/colors";
+import { QrScanner } from "./QrScanner";
+import { createWorkoutLink, readWorkoutLink } from "../hooks/useWorkoutLinks";
+import { describeWorkout } from "../utils/workoutConfig";
+
+interface ShareWorkoutPanelProps {
+  config: WorkoutConfig; // the workout to share
+  onLoad: (config: WorkoutConfig) => void; // a scanned workout
+}
+
+/**
+ * Share the current workout as a link or a QR code, or scan someone else's
+ * code to load theirs.
+ */
+export function ShareWorkoutPanel({ config, onLoad }: ShareWorkoutPanelProps) {
+  const [showCode, setShowCode] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const link = createWorkoutLink(config);
+
+  const sendLink = () => {
+    Share.share({ message: `${describeWorkout(config)}\n${link}` });
+  };
+
+  const handleScan = (data: string) => {
+    setIsScanning(false);
+    const result = readWorkoutLink(data);
+    if (result === null) {
+      setError("That QR code isn't a workout");
+    } else if (!result.ok) {
+      setError(result.error);
+    } else {
+      setError(null);
+      onLoad(result.value);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => setShowCode(!showCode)}
+        >
+          <Text style={styles.actionButtonText}>
+            {showCode ? "Hide Code" : "QR Code"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={sendLink}>
+          <Text style={styles.actionButtonText}>Send Link</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => {
+            setError(null);
+            setIsScanning(true);
+          }}
+        >
+          <Text style={styles.actionButtonText}>Scan</Text>
+        </TouchableOpacity>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {showCode && (
+        <View style={styles.codeContainer}>
+          {/* Dark on light so any camera can read it */}
+          <View style={styles.codeBackground}>
+            <QRCode value={link} size={200} />
+          </View>
+          <Text style={styles.codeLabel}>{describeWorkout(config)}</Text>
+        </View>
+      )}
+
+      <Modal
+        visible={isScanning}
+        animationType="slide"
+        onRequestClose={() => setIsScanning(false)}
+      >
+        <QrScanner onScan={handleScan} onClose={() => setIsScanning(false)} />
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+  },
+  actionButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  errorText: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.red,
+    marginTop: 8,
+  },
+  codeContainer: {
+    alignItems: "center",
+    paddingTop: 16,
+    gap: 8,
+  },
+  codeBackground: {
+    padding: 12,
+    backgroundColor: colors.white,
+    borderRadius: 8,
+  },
+  codeLabel: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
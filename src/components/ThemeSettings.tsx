@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, Switch, TouchableOpacity } from "react-native";
+import { ColorTheme, DisplayColor, ThemeSlot } from "../types";
+import { colors, displayColors } from "../theme/colors";
+import { DISPLAY_COLORS, THEME_PRESETS, THEME_SLOTS } from "../theme/themes";
+
+interface ThemeSettingsProps {
+  theme: ColorTheme;
+  onChange: (theme: ColorTheme) => void;
+}
+
+function isSameTheme(a: ColorTheme, b: ColorTheme): boolean {
+  return (
+    a.useSegmentColors === b.useSegmentColors &&
+    THEME_SLOTS.every(({ slot }) => a.colors[slot] === b.colors[slot])
+  );
+}
+
+function nextColor(color: DisplayColor): DisplayColor {
+  return DISPLAY_COLORS[
+    (DISPLAY_COLORS.indexOf(color) + 1) % DISPLAY_COLORS.length
+  ];
+}
+
+/**
+ * Digit colors: pick a preset, or open "Customize" and tap a color to cycle
+ * it for that mode or phase. The progress bar switch isn't part of a preset.
+ */
+export function ThemeSettings({ theme, onChange }: ThemeSettingsProps) {
+  const [isCustomizing, setIsCustomizing] = useState(false);
+
+  const setSlot = (slot: ThemeSlot, color: DisplayColor) => {
+    onChange({ ...theme, colors: { ...theme.colors, [slot]: color } });
+  };
+
+  return (
+    <View>
+      <View style={styles.presetRow}>
+        {THEME_PRESETS.map((preset) => {
+          const isActive = isSameTheme(theme, preset.theme);
+          return (
+            <TouchableOpacity
+              key={preset.name}
+              style={[styles.presetButton, isActive && styles.presetActive]}
+              onPress={() =>
+                onChange({ ...preset.theme, showProgress: theme.showProgress })
+              }
+            >
+              <Text
+                style={[
+                  styles.presetButtonText,
+                  isActive && styles.presetActiveText,
+                ]}
+              >
+                {preset.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.slotRow}>
+        <Text style={styles.slotLabel}>Progress Bar</Text>
+        <Switch
+          value={theme.showProgress}
+          onValueChange={(v) => onChange({ ...theme, showProgress: v })}
+          trackColor={{ false: colors.buttonSecondary, true: colors.green }}
+          thumbColor={colors.white}
+        />
+      </View>
+
+      <TouchableOpacity
+        style={styles.customizeButton}
+        onPress={() => setIsCustomizing(!isCustomizing)}
+      >
+        <Text style={styles.customizeButtonText}>
+          {isCustomizing ? "Done" : "Customize"}
+        </Text>
+      </TouchableOpacity>
+
+      {isCustomizing && (
+        <>
+          {THEME_SLOTS.map(({ slot, label }) => {
+            const color = theme.colors[slot];
+            return (
+              <View key={slot} style={styles.slotRow}>
+                <Text style={styles.slotLabel}>{label}</Text>
+                <TouchableOpacity
+                  style={styles.swatch}
+                  onPress={() => setSlot(slot, nextColor(color))}
+                >
+                  <View
+                    style={[
+                      styles.colorDot,
+                      { backgroundColor: displayColors[color].active },
+                    ]}
+                  />
+                  <Text
+                    style={[
+                      styles.swatchText,
+                      { color: displayColors[color].active },
+                    ]}
+                  >
+                    {color}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+          <View style={styles.slotRow}>
+            <Text style={styles.slotLabel}>Intervals Use Segment Colors</Text>
+            <Switch
+              value={theme.useSegmentColors}
+              onValueChange={(v) => onChange({ ...theme, useSegmentColors: v })}
+              trackColor={{ false: colors.buttonSecondary, true: colors.green }}
+              thumbColor={colors.white}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  presetRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  presetButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.buttonSecondary,
+  },
+  presetActive: {
+    backgroundColor: colors.buttonSecondary,
+  },
+  presetButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textMuted,
+    textTransform: "uppercase",
+  },
+  presetActiveText: {
+    color: colors.textPrimary,
+  },
+  customizeButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 12,
+  },
+  customizeButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textSecondary,
+    textTransform: "uppercase",
+  },
+  slotRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.background,
+  },
+  slotLabel: {
+    fontFamily: "System",
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  swatch: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 4,
+    paddingLeft: 12,
+  },
+  colorDot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+  },
+  swatchText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    width: 64,
+  },
+});
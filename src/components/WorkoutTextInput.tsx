@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { WorkoutConfig } from "../types";
+import { colors } from "../theme/colors";
+import { parseWorkout } from "../utils/workoutNotation";
+
+interface WorkoutTextInputProps {
+  onApply: (config: WorkoutConfig) => void;
+}
+
+/**
+ * Type a workout instead of tapping it in, e.g. "tabata 8x20/10"
+ * (@see workoutNotation). Input that doesn't parse shows why underneath.
+ */
+export function WorkoutTextInput({ onApply }: WorkoutTextInputProps) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    const result = parseWorkout(text);
+    if (result.ok) {
+      onApply(result.value);
+      setText("");
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, error !== null && styles.inputError]}
+          value={text}
+          onChangeText={(value) => {
+            setText(value);
+            setError(null);
+          }}
+          onSubmitEditing={apply}
+          placeholder="tabata 8x20/10, amrap 15, emom 12 @90s"
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="go"
+        />
+        <TouchableOpacity style={styles.applyButton} onPress={apply}>
+          <Text style={styles.applyButtonText}>Set</Text>
+        </TouchableOpacity>
+      </View>
+      {error !== null && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 15,
+    color: colors.textPrimary,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.surface,
+  },
+  inputError: {
+    borderColor: colors.red,
+  },
+  applyButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+    borderRadius: 12,
+    backgroundColor: colors.buttonSecondary,
+  },
+  applyButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  errorText: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.red,
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,57 @@
+import { getFlash } from "../useFlashCues";
+import { initialState } from "../useTimer";
+import { TimerState } from "../../types";
+import { TimerEvent } from "../../utils/timerEvents";
+
+function makeState(overrides: Partial<TimerState> = {}): TimerState {
+  return { ...initialState, ...overrides };
+}
+
+describe("getFlash", () => {
+  it("flashes hard on transitions", () => {
+    const flip: TimerEvent = {
+      type: "PHASE_CHANGE",
+      phase: "rest",
+      isWorkPhase: false,
+      round: 1,
+      set: 1,
+    };
+    const rollover: TimerEvent = { type: "INTERVAL_ROLLOVER", interval: 2 };
+
+    expect(getFlash([flip], makeState({ mode: "tabata" }))).toBe("strong");
+    expect(getFlash([rollover], makeState({ mode: "emom" }))).toBe("strong");
+    expect(getFlash([{ type: "COMPLETE" }], makeState({ mode: "amrap" }))).toBe(
+      "strong"
+    );
+  });
+
+  it("flashes softly for the last 3 seconds only", () => {
+    const state = makeState({ mode: "countdown" });
+    const final = (secondsRemaining: number): TimerEvent[] => [
+      { type: "FINAL_SECONDS", secondsRemaining },
+    ];
+
+    expect(getFlash(final(3), state)).toBe("soft");
+    expect(getFlash(final(1), state)).toBe("soft");
+    expect(getFlash(final(4), state)).toBeNull();
+  });
+
+  it("stays quiet in modes that are switched off", () => {
+    const state = makeState({
+      mode: "emom",
+      flash: {
+        ...initialState.flash,
+        modes: { ...initialState.flash.modes, emom: false },
+      },
+    });
+    expect(
+      getFlash([{ type: "INTERVAL_ROLLOVER", interval: 2 }], state)
+    ).toBeNull();
+  });
+
+  it("never flashes the clock or stopwatch", () => {
+    expect(
+      getFlash([{ type: "INTRO_END" }], makeState({ mode: "stopwatch" }))
+    ).toBeNull();
+  });
+});
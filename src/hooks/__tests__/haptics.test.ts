@@ -0,0 +1,73 @@
+import { getHapticPattern } from "../useHaptics";
+import { initialState } from "../useTimer";
+
+describe("getHapticPattern", () => {
+  const state = initialState;
+
+  it("gives each transition its own pattern", () => {
+    expect(getHapticPattern([{ type: "INTRO_END" }], state)).toBe("go");
+    expect(
+      getHapticPattern(
+        [
+          {
+            type: "PHASE_CHANGE",
+            phase: "work",
+            isWorkPhase: true,
+            round: 2,
+            set: 1,
+          },
+        ],
+        state
+      )
+    ).toBe("work");
+    expect(
+      getHapticPattern(
+        [
+          {
+            type: "PHASE_CHANGE",
+            phase: "rest",
+            isWorkPhase: false,
+            round: 1,
+            set: 1,
+          },
+        ],
+        state
+      )
+    ).toBe("rest");
+    expect(
+      getHapticPattern([{ type: "INTERVAL_ROLLOVER", interval: 2 }], state)
+    ).toBe("rollover");
+    expect(getHapticPattern([{ type: "COMPLETE" }], state)).toBe("finish");
+  });
+
+  it("follows the kind of the new interval segment", () => {
+    // Default intervals: Row, Rest, Bike, Rest
+    expect(
+      getHapticPattern(
+        [{ type: "SEGMENT_CHANGE", segment: 2, round: 1 }],
+        state
+      )
+    ).toBe("rest");
+    expect(
+      getHapticPattern(
+        [{ type: "SEGMENT_CHANGE", segment: 3, round: 1 }],
+        state
+      )
+    ).toBe("work");
+  });
+
+  it("lets finishing win over everything else", () => {
+    expect(
+      getHapticPattern([{ type: "INTRO_END" }, { type: "COMPLETE" }], state)
+    ).toBe("finish");
+  });
+
+  it("ignores the final seconds and halfway", () => {
+    expect(
+      getHapticPattern(
+        [{ type: "HALFWAY" }, { type: "FINAL_SECONDS", secondsRemaining: 3 }],
+        state
+      )
+    ).toBeNull();
+  });
+});
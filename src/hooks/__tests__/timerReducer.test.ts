@@ -0,0 +1,534 @@
+import { timerReducer, initialState, TimerAction } from "../useTimer";
+import { ProgramBlock, TimerState } from "../../types";
+import { toLocalState, toSnapshot } from "../../network/protocol";
+import { TABATA_SET_DEFAULTS } from "../../utils/tabata";
+
+/** Initial state with a mode and any settings overrides, intro off */
+function makeState(overrides: Partial<TimerState> = {}): TimerState {
+  return { ...initialState, countdownIntro: 0, ...overrides };
+}
+
+/** Apply actions in order */
+function run(state: TimerState, ...actions: TimerAction[]): TimerState {
+  return actions.reduce(timerReducer, state);
+}
+
+const start = (now: number): TimerAction => ({ type: "START", now });
+const stop = (now: number): TimerAction => ({ type: "STOP", now });
+const tick = (now: number): TimerAction => ({ type: "TICK", now });
+
+describe("countdown intro", () => {
+  it("runs the intro before the workout", () => {
+    const state = run(
+      makeState({ mode: "tabata", countdownIntro: 10 }),
+      start(0),
+      tick(4000)
+    );
+
+    expect(state.isInCountdownIntro).toBe(true);
+    expect(state.introTimeRemaining).toBe(6000);
+    expect(state.currentTime).toBe(0);
+  });
+
+  it("hands over to the workout when the intro reaches 0", () => {
+    const base = run(
+      makeState({ mode: "tabata", countdownIntro: 10 }),
+      start(0)
+    );
+
+    const atEnd = run(base, tick(10000));
+    expect(atEnd.isInCountdownIntro).toBe(false);
+    expect(atEnd.introTimeRemaining).toBe(0);
+    expect(atEnd.currentTime).toBe(0);
+
+    const after = run(base, tick(10500));
+    expect(after.currentTime).toBe(500);
+  });
+
+  it("is skipped for the stopwatch", () => {
+    const state = run(
+      makeState({ mode: "stopwatch", countdownIntro: 10 }),
+      start(0)
+    );
+    expect(state.isInCountdownIntro).toBe(false);
+  });
+
+  it("isn't replayed when resuming", () => {
+    const state = run(
+      makeState({ mode: "countdown", countdownIntro: 5 }),
+      start(0),
+      stop(8000),
+      start(20000),
+      tick(21000)
+    );
+
+    expect(state.isInCountdownIntro).toBe(false);
+    expect(state.currentTime).toBe(4000);
+  });
+});
+
+describe("tabata", () => {
+  const tabata = makeState({
+    mode: "tabata",
+    tabata: { workTime: 20, restTime: 10, rounds: 8, ...TABATA_SET_DEFAULTS },
+  });
+
+  it.each([
+    [0, 1, true],
+    [19999, 1, true],
+    [20000, 1, false],
+    [29999, 1, false],
+    [30000, 2, true],
+    [230000, 8, false],
+  ])("at %ims is round %i, work phase %s", (time, round, isWork) => {
+    const state = run(tabata, start(0), tick(time));
+    expect(state.currentRound).toBe(round);
+    expect(state.isWorkPhase).toBe(isWork);
+    expect(state.isRunning).toBe(true);
+  });
+
+  it("stops after the last round", () => {
+    const state = run(tabata, start(0), tick(240000));
+    expect(state.isRunning).toBe(false);
+    expect(state.currentTime).toBe(240000);
+    expect(state.currentRound).toBe(8);
+    expect(state.isWorkPhase).toBe(false);
+  });
+});
+
+describe("tabata sets", () => {
+  // 2 sets of 2 x 20/10, 1:00 between sets, no rest at the end, 0:30 cool-down
+  const tabata = makeState({
+    mode: "tabata",
+    tabata: {
+      workTime: 20,
+      restTime: 10,
+      rounds: 2,
+      sets: 2,
+      setRest: 60,
+      coolDown: 30,
+      skipLastRest: true,
+    },
+  });
+
+  it.each([
+    [30000, 1, 2, true],
+    [50000, 1, 2, false], // set rest in place of round 2's rest
+    [110000, 2, 1, true],
+    [130000, 2, 1, false],
+    [160000, 2, 2, false], // straight into the cool-down
+  ])(
+    "at %ims is set %i round %i, work phase %s",
+    (time, set, round, isWork) => {
+      const state = run(tabata, start(0), tick(time));
+      expect(state.currentSet).toBe(set);
+      expect(state.currentRound).toBe(round);
+      expect(state.isWorkPhase).toBe(isWork);
+      expect(state.isRunning).toBe(true);
+    }
+  );
+
+  it("stops after the cool-down", () => {
+    const state = run(tabata, start(0), tick(200000));
+    expect(state.isRunning).toBe(false);
+    expect(state.currentTime).toBe(190000);
+    expect(state.currentSet).toBe(2);
+  });
+});
+
+describe("emom", () => {
+  const emom = makeState({
+    mode: "emom",
+    emom: { intervalTime: 90, rounds: 3 },
+  });
+
+  it("moves to the next interval on the boundary", () => {
+    expect(run(emom, start(0), tick(89999)).currentMinute).toBe(1);
+    expect(run(emom, start(0), tick(90000)).currentMinute).toBe(2);
+  });
+
+  it("completes after the last interval", () => {
+    const state = run(emom, start(0), tick(270000));
+    expect(state.isRunning).toBe(false);
+    expect(state.currentTime).toBe(270000);
+    expect(state.currentMinute).toBe(3);
+  });
+});
+
+describe("countdown and amrap", () => {
+  it("clamps countdown at its total time", () => {
+    const state = run(
+      makeState({ mode: "countdown", countdown: { totalTime: 180 } }),
+      start(0),
+      tick(200000)
+    );
+    expect(state.currentTime).toBe(180000);
+    expect(state.isRunning).toBe(false);
+  });
+
+  it("clamps amrap at its total time", () => {
+    const state = run(
+      makeState({ mode: "amrap", amrap: { totalTime: 600 } }),
+      start(0),
+      tick(600001)
+    );
+    expect(state.currentTime).toBe(600000);
+    expect(state.isRunning).toBe(false);
+  });
+});
+
+describe("round logging", () => {
+  const logRound = (now: number): TimerAction => ({ type: "LOG_ROUND", now });
+
+  it("logs AMRAP and For Time rounds at the elapsed time", () => {
+    for (const mode of ["amrap", "fortime"] as const) {
+      const state = run(
+        makeState({ mode }),
+        start(0),
+        logRound(95000),
+        logRound(200000)
+      );
+      expect(state.amrapRounds).toEqual([95000, 200000]);
+    }
+  });
+
+  it("is ignored once For Time is done", () => {
+    const state = run(
+      makeState({ mode: "fortime" }),
+      start(0),
+      { type: "FINISH", now: 300000 },
+      logRound(301000)
+    );
+    expect(state.amrapRounds).toEqual([]);
+  });
+
+  it("is ignored in other modes", () => {
+    const state = run(
+      makeState({ mode: "countdown" }),
+      start(0),
+      logRound(5000)
+    );
+    expect(state.amrapRounds).toEqual([]);
+  });
+});
+
+describe("rest", () => {
+  const startRest = (now: number, duration?: number): TimerAction => ({
+    type: "START_REST",
+    now,
+    duration,
+  });
+
+  it("starts the session with the first rest", () => {
+    const state = run(makeState({ mode: "rest" }), startRest(0), tick(30000));
+    expect(state.isRunning).toBe(true);
+    expect(state.isInCountdownIntro).toBe(false);
+    expect(state.restEndsAt).toBe(90000);
+    expect(state.restSets).toBe(1);
+  });
+
+  it("goes idle when the rest runs out, but keeps the session going", () => {
+    const state = run(makeState({ mode: "rest" }), startRest(0), tick(91000));
+    expect(state.restEndsAt).toBeNull();
+    expect(state.isRunning).toBe(true);
+    expect(state.currentTime).toBe(91000);
+  });
+
+  it("counts a set for each rest, using the chosen length", () => {
+    const state = run(
+      makeState({ mode: "rest" }),
+      startRest(0),
+      tick(100000),
+      startRest(150000, 180)
+    );
+    expect(state.restSets).toBe(2);
+    expect(state.restDuration).toBe(180);
+    expect(state.restEndsAt).toBe(330000);
+  });
+
+  it("keeps the default length when a rest picks its own", () => {
+    const quick = run(makeState({ mode: "rest" }), startRest(0, 30));
+    expect(quick.rest.duration).toBe(90);
+
+    const state = run(quick, tick(40000), startRest(60000));
+    expect(state.restDuration).toBe(90);
+    expect(state.restEndsAt).toBe(150000);
+  });
+
+  it("holds the rest while paused", () => {
+    const state = run(
+      makeState({ mode: "rest" }),
+      startRest(0),
+      stop(30000),
+      start(100000),
+      tick(150000)
+    );
+    // 80s of session time has run, so 10s of rest is left
+    expect(state.restEndsAt).toBe(90000);
+    expect(state.currentTime).toBe(80000);
+  });
+
+  it("is ignored in other modes", () => {
+    const state = makeState({ mode: "countdown" });
+    expect(run(state, startRest(0))).toBe(state);
+  });
+});
+
+describe("pause and resume", () => {
+  it("keeps the elapsed time while stopped", () => {
+    const paused = run(makeState(), start(0), stop(5000));
+    expect(paused.isRunning).toBe(false);
+    expect(paused.currentTime).toBe(5000);
+
+    // Ticks while stopped are ignored
+    expect(run(paused, tick(60000)).currentTime).toBe(5000);
+  });
+
+  it("carries on from where it was paused", () => {
+    const state = run(
+      makeState(),
+      start(0),
+      stop(5000),
+      start(60000),
+      tick(62000)
+    );
+    expect(state.currentTime).toBe(7000);
+  });
+
+  it("catches up in one tick after a long stall", () => {
+    const state = run(
+      makeState({ mode: "tabata" }),
+      start(0),
+      tick(10),
+      tick(95000)
+    );
+    expect(state.currentRound).toBe(4);
+    expect(state.isWorkPhase).toBe(true);
+  });
+});
+
+describe("RESET", () => {
+  it("returns to the start of the current mode", () => {
+    const state = run(makeState({ mode: "tabata" }), start(0), tick(45000), {
+      type: "RESET",
+    });
+
+    expect(state.mode).toBe("tabata");
+    expect(state.isRunning).toBe(false);
+    expect(state.currentTime).toBe(0);
+    expect(state.currentRound).toBe(1);
+    expect(state.isWorkPhase).toBe(true);
+
+    // and starts afresh
+    expect(run(state, start(100000), tick(101000)).currentTime).toBe(1000);
+  });
+});
+
+describe("SET_MODE", () => {
+  it("switches mode and clears timing but keeps settings", () => {
+    const tabata = {
+      workTime: 30,
+      restTime: 15,
+      rounds: 6,
+      ...TABATA_SET_DEFAULTS,
+    };
+    const state = run(
+      makeState({ mode: "tabata", tabata }),
+      start(0),
+      tick(50000),
+      { type: "SET_MODE", mode: "emom" }
+    );
+
+    expect(state.mode).toBe("emom");
+    expect(state.isRunning).toBe(false);
+    expect(state.currentTime).toBe(0);
+    expect(state.currentRound).toBe(1);
+    expect(state.currentMinute).toBe(1);
+    expect(state.tabata).toEqual(tabata);
+  });
+});
+
+describe("SYNC", () => {
+  it("takes over another timer and catches up to our clock", () => {
+    const remote = run(
+      makeState({
+        mode: "tabata",
+        tabata: {
+          workTime: 20,
+          restTime: 10,
+          rounds: 8,
+          ...TABATA_SET_DEFAULTS,
+        },
+      }),
+      start(0),
+      tick(5000)
+    );
+    const local = makeState({ sound: { ...initialState.sound, muted: true } });
+
+    const state = timerReducer(local, {
+      type: "SYNC",
+      state: remote,
+      now: 25000,
+    });
+
+    expect(state.mode).toBe("tabata");
+    expect(state.isRunning).toBe(true);
+    expect(state.currentTime).toBe(25000);
+    expect(state.isWorkPhase).toBe(false);
+    expect(state.sound.muted).toBe(true); // keeps our own sound settings
+  });
+
+  it("flips phase on the same instant as a leader with a different clock", () => {
+    const tabata = {
+      workTime: 20,
+      restTime: 10,
+      rounds: 8,
+      ...TABATA_SET_DEFAULTS,
+    };
+    const leader = run(makeState({ mode: "tabata", tabata }), start(100000));
+
+    // Our clock reads 3s behind the leader's
+    const clockOffset = 3000;
+    const follower = timerReducer(makeState(), {
+      type: "SYNC",
+      state: toLocalState(toSnapshot(leader, 100000), clockOffset),
+      now: 97000,
+    });
+
+    // 20s in by both clocks: work ends on the same instant
+    expect(run(leader, tick(119999)).isWorkPhase).toBe(true);
+    expect(run(follower, tick(116999)).isWorkPhase).toBe(true);
+    expect(run(leader, tick(120000)).isWorkPhase).toBe(false);
+    expect(run(follower, tick(117000)).isWorkPhase).toBe(false);
+  });
+});
+
+describe("programs", () => {
+  // 1:00 AMRAP, 0:30 rest, then a 2 x 0:20/0:10 Tabata with a 5s intro
+  const blocks: ProgramBlock[] = [
+    {
+      id: "a",
+      config: { mode: "amrap", settings: { totalTime: 60 } },
+      intro: 0,
+      restAfter: 30,
+    },
+    {
+      id: "b",
+      config: {
+        mode: "tabata",
+        settings: {
+          workTime: 20,
+          restTime: 10,
+          rounds: 2,
+          ...TABATA_SET_DEFAULTS,
+        },
+      },
+      intro: 5,
+      restAfter: 0,
+    },
+  ];
+  const load: TimerAction = { type: "SET_PROGRAM", blocks };
+
+  it("loads the first block", () => {
+    const state = run(makeState({ countdownIntro: 10 }), load);
+    expect(state.mode).toBe("amrap");
+    expect(state.amrap.totalTime).toBe(60);
+    expect(state.countdownIntro).toBe(0);
+    expect(state.programBlock).toBe(0);
+  });
+
+  it("rests between blocks, then starts the next with its intro", () => {
+    const resting = run(makeState(), load, start(0), tick(70000));
+    expect(resting.isRunning).toBe(true);
+    expect(resting.isProgramRest).toBe(true);
+    expect(resting.mode).toBe("countdown");
+    expect(resting.currentTime).toBe(10000);
+
+    const intro = run(resting, tick(92000));
+    expect(intro.programBlock).toBe(1);
+    expect(intro.mode).toBe("tabata");
+    expect(intro.isInCountdownIntro).toBe(true);
+    expect(intro.introTimeRemaining).toBe(3000);
+  });
+
+  it("catches up across several blocks after a stall", () => {
+    // 60s AMRAP + 30s rest + 5s intro, then 25s into the tabata
+    const state = run(makeState(), load, start(0), tick(1000), tick(120000));
+    expect(state.programBlock).toBe(1);
+    expect(state.currentTime).toBe(25000);
+    expect(state.isWorkPhase).toBe(false);
+  });
+
+  it("stops at the end of the last block", () => {
+    const state = run(makeState(), load, start(0), tick(500000));
+    expect(state.isRunning).toBe(false);
+    expect(state.programBlock).toBe(1);
+    expect(state.currentTime).toBe(60000);
+  });
+
+  it("moves on as soon as a For Time block is done", () => {
+    const state = run(
+      makeState(),
+      {
+        type: "SET_PROGRAM",
+        blocks: [
+          {
+            id: "a",
+            config: { mode: "fortime", settings: { timeCap: 600 } },
+            intro: 0,
+            restAfter: 0,
+          },
+          ...blocks,
+        ],
+      },
+      start(0),
+      { type: "FINISH", now: 45000 },
+      tick(50000)
+    );
+    expect(state.programBlock).toBe(1);
+    expect(state.mode).toBe("amrap");
+    expect(state.currentTime).toBe(5000);
+  });
+
+  it("pauses and resumes in a later block", () => {
+    const paused = run(makeState(), load, start(0), stop(75000));
+    expect(paused.isProgramRest).toBe(true);
+    expect(paused.currentTime).toBe(15000);
+
+    const resumed = run(paused, start(200000), tick(205000));
+    expect(resumed.currentTime).toBe(20000);
+  });
+
+  it("goes back to the first block on RESET", () => {
+    const state = run(makeState(), load, start(0), tick(70000), {
+      type: "RESET",
+    });
+    expect(state.programBlock).toBe(0);
+    expect(state.isProgramRest).toBe(false);
+    expect(state.mode).toBe("amrap");
+    expect(state.isRunning).toBe(false);
+  });
+
+  it("is left by switching mode", () => {
+    const state = run(makeState(), load, { type: "SET_MODE", mode: "emom" });
+    expect(state.program).toEqual([]);
+  });
+
+  it("puts back the user's own setup when it's left", () => {
+    const before = makeState({
+      countdown: { totalTime: 300 },
+      countdownIntro: 10,
+    });
+    // Stopped during the rest, which runs as a countdown with no intro
+    const resting = run(before, load, start(0), stop(70000));
+    expect(resting.isProgramRest).toBe(true);
+    expect(resting.countdown.totalTime).toBe(30);
+    expect(resting.countdownIntro).toBe(0);
+
+    const left = run(resting, { type: "SET_PROGRAM", blocks: [] });
+    expect(left.countdown).toEqual({ totalTime: 300 });
+    expect(left.amrap).toEqual(before.amrap);
+    expect(left.countdownIntro).toBe(10);
+    expect(left.setupBeforeProgram).toBeNull();
+  });
+});
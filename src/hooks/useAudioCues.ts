@@ -0,0 +1,87 @@
+/**
+ * useAudioCues Hook
+ * =================
+ * Plays beeps for timer events so athletes don't have to watch the screen.
+ *
+ * ## Cues
+ * - **pip**: 3-2-1 at the end of the countdown intro, and each of the last
+ *   10 seconds of a workout (when `sound.finalCountdown` is on)
+ * - **tone**: GO, every Tabata WORK/REST flip, EMOM interval rollover and
+ *   intervals segment change
+ * - **horn**: countdown, AMRAP, For Time, Tabata, EMOM or intervals finished
+ *
+ * Events come from comparing each TimerState with the previous one
+ * (@see detectTimerEvents), so the reducer stays free of side effects.
+ */
+
+import { useEffect, useRef } from "react";
+import { AudioPlayer, setAudioModeAsync, useAudioPlayer } from "expo-audio";
+import { TimerState } from "../types";
+import { detectTimerEvents, TimerEvent } from "../utils/timerEvents";
+
+type Cue = "pip" | "tone" | "horn";
+
+/**
+ * Pick the single cue to play for a batch of events.
+ * The horn wins over everything else, then tones, then pips.
+ */
+function getCue(events: TimerEvent[], finalCountdown: boolean): Cue | null {
+  if (events.some((e) => e.type === "COMPLETE")) return "horn";
+
+  if (
+    events.some(
+      (e) =>
+        e.type === "INTRO_END" ||
+        e.type === "PHASE_CHANGE" ||
+        e.type === "INTERVAL_ROLLOVER" ||
+        e.type === "SEGMENT_CHANGE"
+    )
+  ) {
+    return "tone";
+  }
+
+  if (events.some((e) => e.type === "INTRO_TICK")) return "pip";
+
+  if (finalCountdown && events.some((e) => e.type === "FINAL_SECONDS")) {
+    return "pip";
+  }
+
+  return null;
+}
+
+function play(player: AudioPlayer, volume: number) {
+  player.volume = volume / 100;
+  player.seekTo(0);
+  player.play();
+}
+
+export function useAudioCues(state: TimerState) {
+  const pip = useAudioPlayer(require("../../assets/sounds/pip.wav"));
+  const tone = useAudioPlayer(require("../../assets/sounds/tone.wav"));
+  const horn = useAudioPlayer(require("../../assets/sounds/horn.wav"));
+
+  const prevStateRef = useRef<TimerState>(state);
+
+  // Beeps should be heard with the ringer off, and duck any music playing.
+  // If the audio mode can't be set, beeps still play with the default one.
+  useEffect(() => {
+    setAudioModeAsync({
+      playsInSilentMode: true,
+      interruptionMode: "duckOthers",
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+
+    const { volume, muted, finalCountdown } = state.sound;
+    if (muted || volume === 0) return;
+
+    const cue = getCue(detectTimerEvents(prev, state), finalCountdown);
+    if (cue === null) return;
+
+    const players = { pip, tone, horn };
+    play(players[cue], volume);
+  }, [state, pip, tone, horn]);
+}
@@ -0,0 +1,103 @@
+/**
+ * useFlashCues Hook
+ * =================
+ * Decides when the landscape clock flashes, for athletes too far away to
+ * notice the digits changing color.
+ *
+ * ## Cues
+ * - **strong**: GO, every Tabata WORK/REST flip, EMOM interval rollover,
+ *   intervals segment change and the end of the workout
+ * - **soft**: each of the last 3 seconds of a workout
+ *
+ * Only modes switched on in `flash.modes` flash. With reduced motion on -
+ * in `flash` or in the phone's accessibility settings - the screen shows a
+ * steady frame instead of flashing (@see FlashOverlay).
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { AccessibilityInfo } from "react-native";
+import { FlashMode, FlashSettings, TimerState } from "../types";
+import { detectTimerEvents, TimerEvent } from "../utils/timerEvents";
+
+export type FlashStrength = "strong" | "soft";
+
+export interface FlashCue {
+  id: number; // new for every flash, so two in a row both play
+  strength: FlashStrength;
+}
+
+/** Final workout seconds that flash */
+const FLASH_FINAL_SECONDS = 3;
+
+/** Pick the flash for a batch of events, if any */
+export function getFlash(
+  events: TimerEvent[],
+  state: Pick<TimerState, "mode" | "flash">
+): FlashStrength | null {
+  const isEnabled = state.flash.modes[state.mode as FlashMode] ?? false;
+  if (!isEnabled) return null;
+
+  if (
+    events.some(
+      (e) =>
+        e.type === "COMPLETE" ||
+        e.type === "INTRO_END" ||
+        e.type === "PHASE_CHANGE" ||
+        e.type === "INTERVAL_ROLLOVER" ||
+        e.type === "SEGMENT_CHANGE"
+    )
+  ) {
+    return "strong";
+  }
+
+  if (
+    events.some(
+      (e) =>
+        e.type === "FINAL_SECONDS" && e.secondsRemaining <= FLASH_FINAL_SECONDS
+    )
+  ) {
+    return "soft";
+  }
+
+  return null;
+}
+
+/** The phone's "reduce motion" accessibility setting */
+function useSystemReducedMotion(): boolean {
+  const [isReduced, setIsReduced] = useState(false);
+
+  useEffect(() => {
+    AccessibilityInfo.isReduceMotionEnabled().then(setIsReduced);
+    const subscription = AccessibilityInfo.addEventListener(
+      "reduceMotionChanged",
+      setIsReduced
+    );
+    return () => subscription.remove();
+  }, []);
+
+  return isReduced;
+}
+
+export function useFlashCues(state: TimerState): {
+  cue: FlashCue | null;
+  reducedMotion: boolean;
+} {
+  const [cue, setCue] = useState<FlashCue | null>(null);
+  const prevStateRef = useRef<TimerState>(state);
+  const systemReducedMotion = useSystemReducedMotion();
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+
+    const strength = getFlash(detectTimerEvents(prev, state), state);
+    if (strength !== null) {
+      setCue((current) => ({ id: (current?.id ?? 0) + 1, strength }));
+    }
+  }, [state]);
+
+  return {
+    cue,
+    reducedMotion: state.flash.reducedMotion || systemReducedMotion,
+  };
+}
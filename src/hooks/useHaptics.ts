@@ -0,0 +1,93 @@
+/**
+ * useHaptics Hook
+ * ===============
+ * Vibrates on transitions, for athletes with the phone in a pocket or on
+ * the floor out of sight.
+ *
+ * ## Patterns
+ * Each transition has its own rhythm so it can be told apart by feel:
+ * - **go**: one heavy tap when the intro ends
+ * - **work**: two heavy taps (Tabata work, intervals work segment)
+ * - **rest**: two light taps (Tabata rest, intervals rest segment)
+ * - **rollover**: three medium taps (EMOM interval)
+ * - **finish**: a long run of heavy taps
+ *
+ * Switched on and off with `haptics` in TimerState.
+ */
+
+import { useEffect, useRef } from "react";
+import * as Haptics from "expo-haptics";
+import { TimerState } from "../types";
+import { detectTimerEvents, TimerEvent } from "../utils/timerEvents";
+
+export type HapticPattern = "go" | "work" | "rest" | "rollover" | "finish";
+
+const { Heavy, Medium, Light } = Haptics.ImpactFeedbackStyle;
+
+const PATTERNS: Record<HapticPattern, Haptics.ImpactFeedbackStyle[]> = {
+  go: [Heavy],
+  work: [Heavy, Heavy],
+  rest: [Light, Light],
+  rollover: [Medium, Medium, Medium],
+  finish: [Heavy, Heavy, Heavy, Heavy, Heavy, Heavy],
+};
+
+/** ms between taps in a pattern */
+const TAP_GAP = 150;
+
+/**
+ * Pick the pattern for a batch of events, if any.
+ * Finishing wins, then the new phase, then GO.
+ */
+export function getHapticPattern(
+  events: TimerEvent[],
+  state: Pick<TimerState, "intervals">
+): HapticPattern | null {
+  for (const event of events) {
+    if (event.type === "COMPLETE") return "finish";
+  }
+
+  for (const event of events) {
+    switch (event.type) {
+      case "PHASE_CHANGE":
+        return event.isWorkPhase ? "work" : "rest";
+      case "INTERVAL_ROLLOVER":
+        return "rollover";
+      case "SEGMENT_CHANGE": {
+        const segment = state.intervals.segments[event.segment - 1];
+        return segment?.kind === "rest" ? "rest" : "work";
+      }
+    }
+  }
+
+  return events.some((e) => e.type === "INTRO_END") ? "go" : null;
+}
+
+export function useHaptics(state: TimerState) {
+  const prevStateRef = useRef<TimerState>(state);
+  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const cancel = () => {
+    timeoutsRef.current.forEach(clearTimeout);
+    timeoutsRef.current = [];
+  };
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+
+    if (!state.haptics) return;
+
+    const pattern = getHapticPattern(detectTimerEvents(prev, state), state);
+    if (pattern === null) return;
+
+    // A new pattern replaces whatever is still playing. A tap the device
+    // can't make is just skipped.
+    cancel();
+    timeoutsRef.current = PATTERNS[pattern].map((style, i) =>
+      setTimeout(() => Haptics.impactAsync(style).catch(() => {}), i * TAP_GAP)
+    );
+  }, [state]);
+
+  useEffect(() => cancel, []);
+}
@@ -0,0 +1,56 @@
+/**
+ * useHistory Hook
+ * ===============
+ * The workout history log. Sessions are kept in memory and written to the
+ * device whenever the log changes (@see historyStorage).
+ *
+ * ## Usage Example
+ * ```tsx
+ * const { sessions, addSession, deleteSession } = useHistory();
+ *
+ * // Record each run of the timer
+ * useSessionRecorder(timer.state, addSession);
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Session } from "../types";
+import { loadHistory, saveHistory } from "../storage/historyStorage";
+
+export function useHistory() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const hasLoadedRef = useRef(false); // Don't save an empty log over stored history
+
+  // Restore the log once on launch
+  useEffect(() => {
+    loadHistory().then((saved) => {
+      // Keep anything recorded before loading finished
+      setSessions((current) => [...saved, ...current]);
+      hasLoadedRef.current = true;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (hasLoadedRef.current) {
+      saveHistory(sessions);
+    }
+  }, [sessions]);
+
+  const addSession = useCallback((session: Session) => {
+    setSessions((current) => [...current, session]);
+  }, []);
+
+  const deleteSession = useCallback((id: string) => {
+    setSessions((current) => current.filter((s) => s.id !== id));
+  }, []);
+
+  /** Add imported sessions, skipping any that are already here */
+  const importSessions = useCallback((imported: Session[]) => {
+    setSessions((current) => {
+      const ids = new Set(current.map((item) => item.id));
+      return [...current, ...imported.filter((item) => !ids.has(item.id))];
+    });
+  }, []);
+
+  return { sessions, addSession, deleteSession, importSessions };
+}
@@ -0,0 +1,72 @@
+/**
+ * usePresets Hook
+ * ===============
+ * The saved workout presets library. Presets are kept in memory and written
+ * to the device whenever the list changes (@see presetStorage).
+ *
+ * ## Usage Example
+ * ```tsx
+ * const { presets, addPreset, renamePreset, deletePreset } = usePresets();
+ *
+ * // Save the current setup
+ * addPreset("Tabata 8x20/10", getWorkoutConfig(timer.state));
+ *
+ * // Load one back into the timer
+ * timer.applyWorkout(presets[0].config);
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Preset, WorkoutConfig } from "../types";
+import { loadPresets, savePresets } from "../storage/presetStorage";
+import { createId } from "../utils/id";
+
+export function usePresets() {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const hasLoadedRef = useRef(false); // Don't save an empty list over stored presets
+
+  // Restore saved presets once on launch
+  useEffect(() => {
+    loadPresets().then((saved) => {
+      // Keep anything added before loading finished
+      setPresets((current) => [...saved, ...current]);
+      hasLoadedRef.current = true;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (hasLoadedRef.current) {
+      savePresets(presets);
+    }
+  }, [presets]);
+
+  const addPreset = useCallback((name: string, config: WorkoutConfig) => {
+    const preset: Preset = {
+      id: createId(),
+      name: name.trim(),
+      config,
+      createdAt: Date.now(),
+    };
+    setPresets((current) => [...current, preset]);
+  }, []);
+
+  const renamePreset = useCallback((id: string, name: string) => {
+    setPresets((current) =>
+      current.map((p) => (p.id === id ? { ...p, name: name.trim() } : p))
+    );
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets((current) => current.filter((p) => p.id !== id));
+  }, []);
+
+  /** Add imported presets, skipping any that are already here */
+  const importPresets = useCallback((imported: Preset[]) => {
+    setPresets((current) => {
+      const ids = new Set(current.map((item) => item.id));
+      return [...current, ...imported.filter((item) => !ids.has(item.id))];
+    });
+  }, []);
+
+  return { presets, addPreset, renamePreset, deletePreset, importPresets };
+}
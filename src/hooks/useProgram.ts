@@ -0,0 +1,40 @@
+/**
+ * useProgram Hook
+ * ===============
+ * The workout program being put together in settings (@see ProgramBlock).
+ * Written to the device whenever it changes (@see programStorage).
+ *
+ * This is only the list of blocks; running it is up to useTimer.
+ *
+ * ## Usage Example
+ * ```tsx
+ * const { program, setProgram } = useProgram();
+ *
+ * <Button title="Run" onPress={() => timer.setProgram(program)} />
+ * ```
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { ProgramBlock } from "../types";
+import { loadProgram, saveProgram } from "../storage/programStorage";
+
+export function useProgram() {
+  const [program, setProgram] = useState<ProgramBlock[]>([]);
+  const hasLoadedRef = useRef(false); // Don't save the empty default over a stored program
+
+  // Restore the saved program once on launch
+  useEffect(() => {
+    loadProgram().then((saved) => {
+      if (saved.length > 0) setProgram(saved);
+      hasLoadedRef.current = true;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (hasLoadedRef.current) {
+      saveProgram(program);
+    }
+  }, [program]);
+
+  return { program, setProgram };
+}
@@ -0,0 +1,87 @@
+/**
+ * useRemoteControl Hook
+ * =====================
+ * Turns this device into a remote or follower for a display on the same
+ * network (@see network/protocol).
+ *
+ * The display sends its timer whenever it changes. We keep a copy in our
+ * own reducer and tick it locally, so the mirrored clock runs smoothly
+ * without the display sending every tick. The copy's timing anchor is
+ * corrected for the difference between the two devices' clocks, so both
+ * flip phases on the same frame. No sound plays here.
+ *
+ * If the display drops out the last state keeps running while we
+ * reconnect, then snaps to the display's again.
+ */
+
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import TcpSocket from "react-native-tcp-socket";
+import * as Network from "expo-network";
+import { initialState, timerReducer } from "./useTimer";
+import { useTickLoop } from "./useTickLoop";
+import { parsePairingCode } from "../network/pairing";
+import { RemoteCommand, toLocalState } from "../network/protocol";
+import {
+  ConnectionStatus,
+  ControlClient,
+  connectToDisplay,
+} from "../network/controlClient";
+
+export function useRemoteControl() {
+  const [state, dispatch] = useReducer(timerReducer, initialState);
+  const [status, setStatus] = useState<ConnectionStatus | null>(null); // null = never connected
+  const [isSynced, setIsSynced] = useState(false); // have a display's state to show
+  const clientRef = useRef<ControlClient | null>(null);
+
+  useTickLoop(state.isRunning, dispatch);
+
+  const disconnect = useCallback(() => {
+    clientRef.current?.close();
+    clientRef.current = null;
+    setStatus(null);
+    setIsSynced(false);
+  }, []);
+
+  /**
+   * Pair with the display showing `code`
+   * @returns An error message if the code can't be used
+   */
+  const connect = useCallback(async (code: string): Promise<string | null> => {
+    // Only short codes need our address; a full one works without it
+    const ownIp = await Network.getIpAddressAsync().catch(() => null);
+
+    const target = parsePairingCode(code, ownIp);
+    if (!target) {
+      return ownIp === null
+        ? "Couldn't find this device's address - enter the display's full address"
+        : "Enter the 7-digit code shown on the display";
+    }
+
+    clientRef.current?.close();
+    setIsSynced(false);
+    clientRef.current = connectToDisplay({
+      net: TcpSocket,
+      host: target.host,
+      pin: target.pin,
+      onStatus: setStatus,
+      onState: (snapshot, clockOffset) => {
+        setIsSynced(true);
+        dispatch({
+          type: "SYNC",
+          state: toLocalState(snapshot, clockOffset),
+          now: Date.now(),
+        });
+      },
+    });
+    return null;
+  }, []);
+
+  const send = useCallback((command: RemoteCommand) => {
+    clientRef.current?.send(command);
+  }, []);
+
+  // Drop the connection when the remote screen closes
+  useEffect(() => () => clientRef.current?.close(), []);
+
+  return { state, status, isSynced, connect, disconnect, send };
+}
@@ -0,0 +1,130 @@
+/**
+ * useRemoteHost Hook
+ * ==================
+ * Lets remotes on the same network control this device's timer, and other
+ * displays follow it (@see network/protocol).
+ *
+ * While enabled it listens for remotes and followers, shows a pairing code
+ * for them to type in, runs the commands they send and streams the timer
+ * back to them.
+ * A new PIN is made every time hosting is turned on.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import TcpSocket from "react-native-tcp-socket";
+import * as Network from "expo-network";
+import { useTimer } from "./useTimer";
+import { createPairingCode, createPin } from "../network/pairing";
+import {
+  RemoteCommand,
+  hasBroadcastChange,
+  toSnapshot,
+} from "../network/protocol";
+import { ControlServer, startControlServer } from "../network/controlServer";
+
+type Timer = ReturnType<typeof useTimer>;
+
+export interface RemoteHost {
+  pairingCode: string | null; // null until we know our address
+  remoteCount: number;
+  error: string | null;
+}
+
+function runCommand(timer: Timer, command: RemoteCommand) {
+  switch (command.action) {
+    case "start":
+      if (!timer.state.isRunning) timer.start();
+      break;
+    case "stop":
+      if (timer.state.isRunning) timer.stop();
+      break;
+    case "toggle":
+      timer.toggle();
+      break;
+    case "reset":
+      timer.reset();
+      break;
+    case "logRound":
+      timer.logRound();
+      break;
+    case "lap":
+      timer.lap();
+      break;
+    case "finish":
+      timer.finish();
+      break;
+    case "startRest":
+      timer.startRest(command.duration);
+      break;
+    case "setMode":
+      timer.setMode(command.mode);
+      break;
+    case "setWorkout":
+      timer.applyWorkout(command.config);
+      break;
+  }
+}
+
+export function useRemoteHost(timer: Timer, enabled: boolean): RemoteHost {
+  const [pairingCode, setPairingCode] = useState<string | null>(null);
+  const [remoteCount, setRemoteCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const serverRef = useRef<ControlServer | null>(null);
+
+  // The server outlives renders, so it reads the latest timer through a ref
+  const timerRef = useRef(timer);
+  timerRef.current = timer;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const pin = createPin();
+    let isCancelled = false;
+
+    Network.getIpAddressAsync()
+      .then((ip) => {
+        if (isCancelled) return;
+
+        const code = ip === "0.0.0.0" ? null : createPairingCode(ip, pin);
+        if (!code) {
+          setError("Connect to Wi-Fi to use a remote");
+          return;
+        }
+
+        setPairingCode(code);
+        serverRef.current = startControlServer({
+          net: TcpSocket,
+          pin,
+          getSnapshot: () => toSnapshot(timerRef.current.state, Date.now()),
+          onCommand: (command) => runCommand(timerRef.current, command),
+          onRemotesChange: setRemoteCount,
+          onError: () => setError("Couldn't start remote control"),
+        });
+      })
+      .catch(() => setError("Couldn't find this device's address"));
+
+    return () => {
+      isCancelled = true;
+      serverRef.current?.close();
+      serverRef.current = null;
+      setPairingCode(null);
+      setRemoteCount(0);
+      setError(null);
+    };
+  }, [enabled]);
+
+  // Stream changes to remotes. Not on ticks - everything a tick changes the
+  // remote works out for itself from the timing anchor.
+  const { state } = timer;
+  const prevStateRef = useRef(state);
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+    if (hasBroadcastChange(prev, state)) {
+      serverRef.current?.broadcast(toSnapshot(state, Date.now()));
+    }
+  }, [state]);
+
+  return { pairingCode, remoteCount, error };
+}
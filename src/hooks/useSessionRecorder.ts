@@ -0,0 +1,83 @@
+/**
+ * useSessionRecorder Hook
+ * =======================
+ * Watches the timer and reports each run as a history Session.
+ *
+ * - A session starts when the timer is started from zero
+ * - It's **completed** when the workout finishes (or For Time is marked done,
+ *   or a stopwatch or rest session is reset - neither has an end)
+ * - It's **abandoned** when it's reset or the mode changes part way through
+ *
+ * Runs that never got past the intro aren't recorded. Each block of a
+ * program is a session of its own; the rests between them aren't recorded.
+ */
+
+import { useEffect, useRef } from "react";
+import { Session, TimerState } from "../types";
+import { createSession } from "../utils/sessions";
+import { isWorkoutComplete } from "../utils/timerEvents";
+import { getTotalDuration } from "../utils/timeFormat";
+import { isProgramAdvance } from "../utils/program";
+
+/**
+ * A program block as it finished, from the last state before the program
+ * moved on. For Time keeps its time, as it may have been finished early.
+ */
+function asFinishedBlock(state: TimerState): TimerState {
+  if (state.mode === "fortime") return state;
+  const duration = getTotalDuration(state);
+  return { ...state, currentTime: duration ?? state.currentTime };
+}
+
+/** True when the timer is back at zero and not running (RESET, SET_MODE...) */
+function isAtStart(state: TimerState): boolean {
+  return !state.isRunning && state.accumulatedTime === 0;
+}
+
+export function useSessionRecorder(
+  state: TimerState,
+  onRecord: (session: Session) => void
+) {
+  const prevStateRef = useRef<TimerState>(state);
+  const sessionStartRef = useRef<number | null>(null); // epoch ms, null = no session
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+
+    // START from zero begins a new session (clock mode has nothing to record)
+    if (sessionStartRef.current === null) {
+      if (isAtStart(prev) && state.isRunning && state.mode !== "clock") {
+        sessionStartRef.current = Date.now();
+      }
+      return;
+    }
+
+    const startedAt = sessionStartRef.current;
+
+    // A program moved on to its next block (or the rest before it)
+    if (isProgramAdvance(prev, state)) {
+      if (!prev.isProgramRest) {
+        onRecord(createSession(asFinishedBlock(prev), startedAt, "completed"));
+      }
+      sessionStartRef.current = Date.now();
+      return;
+    }
+
+    if (!state.isRunning && isWorkoutComplete(state)) {
+      sessionStartRef.current = null;
+      onRecord(createSession(state, startedAt, "completed"));
+      return;
+    }
+
+    if (isAtStart(state)) {
+      sessionStartRef.current = null;
+      // Judge the run by the last state before it was cleared
+      if (prev.currentTime > 0 && !prev.isProgramRest) {
+        const isOpenEnded = prev.mode === "stopwatch" || prev.mode === "rest";
+        const status = isOpenEnded ? "completed" : "abandoned";
+        onRecord(createSession(prev, startedAt, status));
+      }
+    }
+  }, [state, onRecord]);
+}
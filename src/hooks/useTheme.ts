@@ -0,0 +1,39 @@
+/**
+ * useTheme Hook
+ * =============
+ * The user's color theme (@see themes). Written to the device whenever it
+ * changes (@see themeStorage).
+ *
+ * ## Usage Example
+ * ```tsx
+ * const { theme, setTheme } = useTheme();
+ *
+ * <LCDDisplay value={time} color={getDisplayColor(timer.state, theme)} />
+ * ```
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { ColorTheme } from "../types";
+import { loadTheme, saveTheme } from "../storage/themeStorage";
+import { CLASSIC_THEME } from "../theme/themes";
+
+export function useTheme() {
+  const [theme, setTheme] = useState<ColorTheme>(CLASSIC_THEME);
+  const hasLoadedRef = useRef(false); // Don't save the default over a stored theme
+
+  // Restore the saved theme once on launch
+  useEffect(() => {
+    loadTheme().then((saved) => {
+      if (saved) setTheme(saved);
+      hasLoadedRef.current = true;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (hasLoadedRef.current) {
+      saveTheme(theme);
+    }
+  }, [theme]);
+
+  return { theme, setTheme };
+}
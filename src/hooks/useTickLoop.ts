@@ -0,0 +1,40 @@
+/**
+ * useTickLoop Hook
+ * ================
+ * Sends TICK to a timer reducer every 10ms while it's running.
+ *
+ * Ticks only tell the reducer what time it is - the reducer works out
+ * everything else from the timing anchor. So setInterval(fn, 10) not firing
+ * exactly every 10ms, or not firing at all in the background, is harmless.
+ * We tick straight away when the app comes back to the foreground so the
+ * display catches up without waiting for the next interval.
+ */
+
+import { Dispatch, useEffect } from "react";
+import { AppState } from "react-native";
+import { TimerAction } from "./useTimer";
+
+export function useTickLoop(
+  isRunning: boolean,
+  dispatch: Dispatch<TimerAction>
+) {
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => {
+      dispatch({ type: "TICK", now: Date.now() });
+    }, 10); // 10ms = 100fps update rate for smooth display
+
+    const subscription = AppState.addEventListener("change", (appState) => {
+      if (appState === "active") {
+        dispatch({ type: "TICK", now: Date.now() });
+      }
+    });
+
+    // Clean up when stopped or on unmount
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [isRunning, dispatch]);
+}
@@ -12,8 +12,10 @@
  * - **stopwatch**: Counts up indefinitely from 0:00
  * - **countdown**: Counts down from a set duration to 0:00
  * - **tabata**: Alternating work/rest intervals for N rounds (e.g., 20s work, 10s rest, 8 rounds)
- * - **emom**: "Every Minute On the Minute" - resets each minute for N total minutes
+ * - **emom**: "Every Minute On the Minute" - resets each interval (1:00, 1:30, 2:00...) for N rounds
  * - **amrap**: "As Many Rounds As Possible" - counts up for a set duration
+ * - **fortime**: Counts up to a time cap; the athlete hits "done" to freeze their finish time
+ * - **intervals**: A custom list of named segments (e.g. 3:00 row, 1:00 rest), repeated N times
  *
  * ## Countdown Intro
  * Before starting any workout (except clock and stopwatch), an optional countdown intro
@@ -22,10 +24,36 @@
  * - While `isInCountdownIntro` is true, display `introTimeRemaining` (in ms)
  * - When intro reaches 0, the main workout timer begins automatically
  *
+ * ## Audio Cues
+ * Beeps for the intro, phase changes and completion are played by useAudioCues,
+ * which watches the state this hook produces. Volume and mute live in `sound`.
+ * Spoken announcements come from useVoiceCues, set up by `voice`, and
+ * vibration from useHaptics when `haptics` is on.
+ * Likewise LandscapeClock flashes the screen on transitions, set up by `flash`.
+ *
+ * ## Persistence
+ * Mode, per-mode settings, intro and cue settings are saved to the device whenever they
+ * change and restored on launch (@see settingsStorage). Restoring dispatches
+ * LOAD_SETTINGS, which merges the saved values over the defaults.
+ *
+ * ## Programs
+ * SET_PROGRAM loads a list of blocks (@see ProgramBlock) to run back to back.
+ * Each block brings its own mode, settings and intro, with an optional rest
+ * after it. When a block finishes, the reducer loads the next step and keeps
+ * running from the moment the last one ended. Settings aren't saved while a
+ * program is loaded, and the user's own settings and intro are put back when
+ * it's left, so its blocks don't overwrite the user's own setup.
+ *
  * ## How Timing Works
- * Instead of incrementing by a fixed amount each tick, we measure the actual elapsed
- * time between ticks using Date.now(). This compensates for any drift or delays in
- * JavaScript's setInterval, ensuring accurate timing even if the device is under load.
+ * Running time is never added up tick by tick. Instead the state holds an anchor:
+ * `startedAt` (the Date.now() of the last START) plus `accumulatedTime` (everything
+ * run before that, banked on STOP). Every TICK passes in the current time and the
+ * reducer derives currentTime, round, phase and interval from it. The intro is just
+ * the first `introDuration` ms of that timeline.
+ *
+ * Because nothing depends on how often ticks arrive, a stalled JS thread or a trip
+ * to the background can't make the timer drift: the next tick (sent immediately when
+ * the app becomes active again) lands exactly where the workout really is.
  *
  * The interval runs every 10ms for smooth display updates (especially for the
  * milliseconds/centiseconds display in stopwatch mode).
@@ -35,13 +63,27 @@
  * - mode: Current timer mode
  * - isRunning: Whether the timer is actively counting
  * - currentTime: Elapsed time in milliseconds (always counts UP internally)
- * - countdown/tabata/emom/amrap: Settings objects for each mode
- * - currentRound: Current round number (tabata)
- * - isWorkPhase: Whether in work or rest phase (tabata)
- * - currentMinute: Current minute number (emom)
+ * - startedAt/accumulatedTime/introDuration: Timing anchor that currentTime is derived from
+ * - countdown/tabata/emom/amrap/fortime/intervals: Settings objects for each mode
+ * - currentRound: Current round number (tabata, intervals)
+ * - isWorkPhase: Whether in work or rest phase (tabata, intervals)
+ * - currentSet: Current set number (tabata)
+ * - currentMinute: Current interval number (emom)
+ * - currentSegment: Current segment number within the list (intervals)
+ * - amrapRounds: Elapsed time at each logged round (amrap, fortime), for the round count and splits
+ * - restEndsAt/restSets/restDuration: When the current rest ends, how many sets are done
+ *   and how long this rest is (rest)
+ * - laps: Elapsed time and split for each recorded lap (stopwatch)
+ * - finishTime: Time the athlete finished, or null if still going / capped (fortime)
+ * - program/programBlock/isProgramRest: The loaded program and the step being run
+ * - setupBeforeProgram: The user's settings and intro from before the program was loaded
  * - countdownIntro: Intro duration in seconds (0 = disabled)
  * - isInCountdownIntro: True while the intro countdown is active
  * - introTimeRemaining: Milliseconds remaining in intro countdown
+ * - sound: Volume, mute and "last 10 seconds" pip settings
+ * - voice: Whether to speak, which announcements and how often minutes are called
+ * - haptics: Whether to vibrate on transitions
+ * - flash: Which modes flash the screen, phase tint and reduced motion
  *
  * ## Usage Example
  * ```tsx
@@ -51,7 +93,7 @@
  * setMode('tabata');
  *
  * // Configure Tabata settings
- * setTabata({ workTime: 30, restTime: 15, rounds: 6 });
+ * setTabata({ ...state.tabata, workTime: 30, restTime: 15, rounds: 6 });
  *
  * // Set a 5-second countdown intro before workout starts
  * setCountdownIntro(5);
@@ -71,46 +113,280 @@ import {
   TabataSettings,
   EmomSettings,
   AmrapSettings,
+  ForTimeSettings,
   CountdownSettings,
+  IntervalSettings,
+  RestSettings,
+  SoundSettings,
+  VoiceSettings,
+  WorkoutConfig,
+  FlashSettings,
+  ProgramBlock,
+  WorkoutSetup,
 } from "../types";
+import { useAudioCues } from "./useAudioCues";
+import { useVoiceCues } from "./useVoiceCues";
+import { useHaptics } from "./useHaptics";
+import { useTickLoop } from "./useTickLoop";
+import {
+  loadSettings,
+  saveSettings,
+  toPersistedSettings,
+  LoadedSettings,
+} from "../storage/settingsStorage";
+import { getIntervalTotalTime, locateSegment } from "../utils/intervals";
+import {
+  TABATA_SET_DEFAULTS,
+  getTabataTotalTime,
+  locateTabata,
+} from "../utils/tabata";
+import { isWorkoutComplete } from "../utils/timerEvents";
+import { withWorkoutConfig } from "../utils/workoutConfig";
+import {
+  getNextProgramStep,
+  getStepConfig,
+  ProgramStep,
+} from "../utils/program";
 
 /**
  * All possible actions that can be dispatched to the timer reducer.
  * Using a discriminated union ensures type safety when handling actions.
  */
-type TimerAction =
+export type TimerAction =
   | { type: "SET_MODE"; mode: TimerMode }
-  | { type: "START" }
-  | { type: "STOP" }
+  | { type: "START"; now: number } // now = Date.now() when dispatched
+  | { type: "STOP"; now: number }
   | { type: "RESET" }
-  | { type: "TICK"; delta: number } // delta = milliseconds since last tick
+  | { type: "TICK"; now: number }
+  | { type: "LOG_ROUND"; now: number }
+  | { type: "LAP"; now: number }
+  | { type: "FINISH"; now: number }
+  | { type: "START_REST"; now: number; duration?: number } // seconds, else rest.duration
   | { type: "SET_COUNTDOWN"; settings: CountdownSettings }
   | { type: "SET_TABATA"; settings: TabataSettings }
   | { type: "SET_EMOM"; settings: EmomSettings }
   | { type: "SET_AMRAP"; settings: AmrapSettings }
-  | { type: "SET_COUNTDOWN_INTRO"; seconds: number };
+  | { type: "SET_FORTIME"; settings: ForTimeSettings }
+  | { type: "SET_INTERVALS"; settings: IntervalSettings }
+  | { type: "SET_REST"; settings: RestSettings }
+  | { type: "SET_COUNTDOWN_INTRO"; seconds: number }
+  | { type: "SET_SOUND"; settings: SoundSettings }
+  | { type: "SET_VOICE"; settings: VoiceSettings }
+  | { type: "SET_HAPTICS"; enabled: boolean }
+  | { type: "SET_FLASH"; settings: FlashSettings }
+  | { type: "SET_PROGRAM"; blocks: ProgramBlock[] } // empty = leave the program
+  | { type: "LOAD_SETTINGS"; settings: LoadedSettings }
+  | { type: "SYNC"; state: TimerState; now: number }; // state on our clock (@see toLocalState)
 
 /**
  * Default state when the hook initializes.
  * Starts in stopwatch mode with standard CrossFit defaults for other modes.
  */
-const initialState: TimerState = {
+export const initialState: TimerState = {
   mode: "stopwatch",
   isRunning: false,
   currentTime: 0, // Always in milliseconds, always counts UP
+  startedAt: null,
+  accumulatedTime: 0,
+  introDuration: 0,
   countdown: { totalTime: 180 }, // 3 minutes default
-  tabata: { workTime: 20, restTime: 10, rounds: 8 }, // Classic Tabata protocol
-  emom: { intervalTime: 60, totalMinutes: 10 },
+  tabata: { workTime: 20, restTime: 10, rounds: 8, ...TABATA_SET_DEFAULTS }, // Classic Tabata protocol
+  emom: { intervalTime: 60, rounds: 10 }, // 10 x 1:00
   amrap: { totalTime: 600 }, // 10 minutes default
+  fortime: { timeCap: 720 }, // 12 minute cap
+  rest: { duration: 90 }, // 1:30 between sets
+  intervals: {
+    // 3:00 row, 1:00 rest, 2:00 bike, 1:00 rest, x3
+    segments: [
+      {
+        id: "row",
+        label: "Row",
+        duration: 180,
+        color: "green",
+        kind: "work",
+      },
+      {
+        id: "rest-1",
+        label: "Rest",
+        duration: 60,
+        color: "red",
+        kind: "rest",
+      },
+      {
+        id: "bike",
+        label: "Bike",
+        duration: 120,
+        color: "blue",
+        kind: "work",
+      },
+      {
+        id: "rest-2",
+        label: "Rest",
+        duration: 60,
+        color: "red",
+        kind: "rest",
+      },
+    ],
+    repeat: 3,
+  },
   currentRound: 1, // 1-indexed for display
   isWorkPhase: true, // Tabata starts with work phase
+  currentSet: 1, // 1-indexed for display
   currentMinute: 1, // 1-indexed for display
+  currentSegment: 1, // 1-indexed for display
+  amrapRounds: [],
+  laps: [],
+  finishTime: null,
+  restEndsAt: null,
+  restSets: 0,
+  restDuration: 0,
+  program: [],
+  programBlock: 0,
+  isProgramRest: false,
+  setupBeforeProgram: null,
   // Countdown intro defaults
   countdownIntro: 10, // 3 second countdown before workout (0 = disabled)
   isInCountdownIntro: false,
   introTimeRemaining: 0,
+  sound: { volume: 80, muted: false, finalCountdown: true },
+  voice: {
+    enabled: false,
+    cues: {
+      start: true,
+      rounds: true,
+      halfway: true,
+      remaining: true,
+      finish: true,
+    },
+    remainingEvery: 1,
+  },
+  haptics: true,
+  flash: {
+    modes: {
+      countdown: true,
+      tabata: true,
+      emom: true,
+      amrap: true,
+      fortime: true,
+      intervals: true,
+      rest: true,
+    },
+    phaseTint: true,
+    reducedMotion: false,
+  },
 };
 
+/**
+ * Run state for a timer that hasn't started yet.
+ * Spread over the state on RESET, mode changes and anything else that starts afresh.
+ */
+const resetRunState = {
+  isRunning: false,
+  currentTime: 0,
+  startedAt: null,
+  accumulatedTime: 0,
+  introDuration: 0,
+  currentRound: 1,
+  isWorkPhase: true,
+  currentSet: 1,
+  currentMinute: 1,
+  currentSegment: 1,
+  amrapRounds: [],
+  laps: [],
+  finishTime: null,
+  restEndsAt: null,
+  restSets: 0,
+  restDuration: 0,
+  isInCountdownIntro: false,
+  introTimeRemaining: 0,
+} satisfies Partial<TimerState>;
+
+/**
+ * Stop the timer at the end of the workout.
+ * `currentTime` is clamped to the end, and the anchor is banked to match so a
+ * later START resumes (and immediately re-finishes) rather than drifting.
+ */
+function completeRun(
+  state: TimerState,
+  changes: Partial<TimerState> & { currentTime: number }
+): TimerState {
+  return {
+    ...state,
+    ...changes,
+    isRunning: false,
+    startedAt: null,
+    accumulatedTime: state.introDuration + changes.currentTime,
+    isInCountdownIntro: false,
+    introTimeRemaining: 0,
+  };
+}
+
+/** The settings and intro a program's blocks replace */
+function getWorkoutSetup(state: TimerState): WorkoutSetup {
+  const { countdown, tabata, emom, amrap, fortime, intervals, rest } = state;
+  const { countdownIntro } = state;
+  return {
+    countdown,
+    tabata,
+    emom,
+    amrap,
+    fortime,
+    intervals,
+    rest,
+    countdownIntro,
+  };
+}
+
+/** Unload the program, putting back the setup from before it was loaded */
+function leaveProgram(state: TimerState): TimerState {
+  return {
+    ...state,
+    ...state.setupBeforeProgram,
+    program: [],
+    programBlock: 0,
+    isProgramRest: false,
+    setupBeforeProgram: null,
+  };
+}
+
+/** Load a step of the program, ready to start */
+function loadProgramStep(state: TimerState, step: ProgramStep): TimerState {
+  return {
+    ...withWorkoutConfig(state, getStepConfig(state.program, step)),
+    ...resetRunState,
+    programBlock: step.block,
+    isProgramRest: step.isRest,
+    countdownIntro: step.isRest ? 0 : state.program[step.block].intro,
+  };
+}
+
+/**
+ * Move a program on to its next step once the current one finishes.
+ * The next step starts from the instant the last one ended rather than
+ * `now`, so a stall that skips past the end of a block loses no time.
+ */
+function advanceProgram(
+  prev: TimerState,
+  next: TimerState,
+  action: TimerAction
+): TimerState {
+  // Everything else that can finish a block ticks through timerReducer
+  if (action.type !== "TICK" && action.type !== "FINISH") return next;
+  if (!prev.isRunning || prev.startedAt === null) return next;
+  if (next.isRunning || !isWorkoutComplete(next)) return next;
+
+  const step = getNextProgramStep(next);
+  if (!step) return next;
+
+  const endedAt =
+    prev.startedAt + (next.accumulatedTime - prev.accumulatedTime);
+  const started = timerReducer(loadProgramStep(next, step), {
+    type: "START",
+    now: endedAt,
+  });
+  return timerReducer(started, { type: "TICK", now: action.now });
+}
+
 /**
  * Timer Reducer
  * =============
@@ -118,11 +394,21 @@ const initialState: TimerState = {
  *
  * Key design decisions:
  * - currentTime always counts UP (even for countdown mode - we subtract from total to display)
+ * - Time-dependent actions carry `now`, so the reducer stays pure and is driven by wall-clock time
  * - Mode changes reset all timing state to prevent stale data
  * - TICK action handles all the complex logic for different modes
  * - Countdown intro runs first (if enabled), then transitions to main workout
+ * - A program moves on to its next block as soon as one finishes
  */
-function timerReducer(state: TimerState, action: TimerAction): TimerState {
+export function timerReducer(
+  state: TimerState,
+  action: TimerAction
+): TimerState {
+  return advanceProgram(state, reduceAction(state, action), action);
+}
+
+/** Apply a single action, for timerReducer */
+function reduceAction(state: TimerState, action: TimerAction): TimerState {
   switch (action.type) {
     /**
      * SET_MODE: Switch between timer modes
@@ -130,15 +416,9 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
      */
     case "SET_MODE":
       return {
-        ...state,
+        ...leaveProgram(state),
         mode: action.mode,
-        isRunning: false,
-        currentTime: 0,
-        currentRound: 1,
-        isWorkPhase: true,
-        currentMinute: 1,
-        isInCountdownIntro: false,
-        introTimeRemaining: 0,
+        ...resetRunState,
       };
 
     /**
@@ -146,70 +426,170 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
      * If countdown intro is enabled (and mode supports it), start with intro first
      */
     case "START": {
-      const supportsIntro = !["clock", "stopwatch"].includes(state.mode);
-      const hasIntro = state.countdownIntro > 0 && supportsIntro;
+      // A finished For Time workout stays frozen until RESET
+      if (state.finishTime !== null || state.isRunning) return state;
 
-      // Only start intro if we're at the beginning (currentTime === 0)
-      if (hasIntro && state.currentTime === 0) {
-        return {
-          ...state,
-          isRunning: true,
-          isInCountdownIntro: true,
-          introTimeRemaining: state.countdownIntro * 1000,
-        };
+      // Resuming - keep the intro (if any) this run started with
+      if (state.accumulatedTime > 0) {
+        return { ...state, isRunning: true, startedAt: action.now };
       }
 
-      return { ...state, isRunning: true };
+      // Only start intro if we're at the beginning
+      const supportsIntro = !["clock", "stopwatch", "rest"].includes(
+        state.mode
+      );
+      const hasIntro = state.countdownIntro > 0 && supportsIntro;
+      const introDuration = hasIntro ? state.countdownIntro * 1000 : 0;
+
+      return {
+        ...state,
+        isRunning: true,
+        startedAt: action.now,
+        introDuration,
+        isInCountdownIntro: hasIntro,
+        introTimeRemaining: introDuration,
+      };
     }
 
-    /** STOP: Pause counting (preserves current time for resume) */
-    case "STOP":
-      return { ...state, isRunning: false };
+    /**
+     * STOP: Pause counting (preserves current time for resume)
+     * Brings the state up to the moment of stopping, then banks the run time.
+     */
+    case "STOP": {
+      if (!state.isRunning || state.startedAt === null) {
+        return { ...state, isRunning: false };
+      }
+
+      const ticked = timerReducer(state, { type: "TICK", now: action.now });
+      // Finished on this very tick
+      if (!ticked.isRunning || ticked.startedAt === null) return ticked;
+
+      // Bank from the ticked anchor, as a program may have moved on a step
+      return {
+        ...ticked,
+        isRunning: false,
+        startedAt: null,
+        accumulatedTime:
+          ticked.accumulatedTime + (action.now - ticked.startedAt),
+      };
+    }
 
-    /** RESET: Return to initial state for current mode */
+    /** RESET: Return to initial state for current mode (or program) */
     case "RESET":
+      if (state.program.length > 0) {
+        return loadProgramStep(state, { block: 0, isRest: false });
+      }
       return {
         ...state,
-        isRunning: false,
-        currentTime: 0,
-        currentRound: 1,
-        isWorkPhase: true,
-        currentMinute: 1,
-        isInCountdownIntro: false,
-        introTimeRemaining: 0,
+        ...resetRunState,
       };
 
+    /**
+     * LOG_ROUND: Athlete finished a round of the AMRAP or For Time
+     * Records the elapsed time so we can show the count and per-round splits.
+     * Ignored outside a running AMRAP or For Time (including during the intro).
+     */
+    case "LOG_ROUND": {
+      const ticked = timerReducer(state, { type: "TICK", now: action.now });
+      const isActive =
+        (ticked.mode === "amrap" || ticked.mode === "fortime") &&
+        ticked.isRunning &&
+        !ticked.isInCountdownIntro;
+      if (!isActive) return ticked;
+
+      return {
+        ...ticked,
+        amrapRounds: [...ticked.amrapRounds, ticked.currentTime],
+      };
+    }
+
+    /**
+     * LAP: Record a stopwatch lap
+     * Stores the elapsed time and the split since the previous lap.
+     */
+    case "LAP": {
+      if (state.mode !== "stopwatch" || !state.isRunning) return state;
+
+      const ticked = timerReducer(state, { type: "TICK", now: action.now });
+      const previous = ticked.laps[ticked.laps.length - 1];
+      const split = ticked.currentTime - (previous?.elapsed ?? 0);
+      return {
+        ...ticked,
+        laps: [...ticked.laps, { elapsed: ticked.currentTime, split }],
+      };
+    }
+
+    /**
+     * FINISH: Athlete is done with a For Time workout
+     * Freezes the clock at their finish time.
+     */
+    case "FINISH": {
+      const ticked = timerReducer(state, { type: "TICK", now: action.now });
+      const isActive =
+        ticked.mode === "fortime" &&
+        ticked.isRunning &&
+        !ticked.isInCountdownIntro;
+      if (!isActive) return ticked;
+
+      return completeRun(ticked, {
+        currentTime: ticked.currentTime,
+        finishTime: ticked.currentTime,
+      });
+    }
+
+    /**
+     * START_REST: Athlete finished a set, start resting
+     * Starts the session clock if it isn't running. Starting a rest while
+     * resting cuts the last one short and counts another set. A quick-tap
+     * length is for this rest only; `rest.duration` stays the default.
+     */
+    case "START_REST": {
+      if (state.mode !== "rest") return state;
+
+      const duration = action.duration ?? state.rest.duration;
+      const running = state.isRunning
+        ? timerReducer(state, { type: "TICK", now: action.now })
+        : timerReducer(state, { type: "START", now: action.now });
+
+      return {
+        ...running,
+        restDuration: duration,
+        restEndsAt: running.currentTime + duration * 1000,
+        restSets: running.restSets + 1,
+      };
+    }
+
     /**
      * TICK: Core timing logic
-     * Called every ~10ms while running. Handles intro countdown and mode-specific logic.
+     * Called every ~10ms while running. Derives the intro countdown and all
+     * mode-specific state from the wall-clock time.
      *
-     * @param delta - Actual milliseconds elapsed since last tick (not a fixed 10ms)
+     * @param now - Date.now() at the time of the tick
      */
     case "TICK": {
-      // COUNTDOWN INTRO PHASE
-      // If we're in the intro, count down until it reaches 0, then transition to main workout
-      if (state.isInCountdownIntro) {
-        const newIntroRemaining = state.introTimeRemaining - action.delta;
-
-        if (newIntroRemaining <= 0) {
-          // Intro complete - transition to main workout
-          return {
-            ...state,
-            isInCountdownIntro: false,
-            introTimeRemaining: 0,
-            currentTime: 0, // Ensure main timer starts at 0
-          };
-        }
+      if (!state.isRunning || state.startedAt === null) return state;
+
+      // Total time run so far, intro included
+      const elapsed = state.accumulatedTime + (action.now - state.startedAt);
 
+      // COUNTDOWN INTRO PHASE
+      // The intro takes up the first introDuration ms, then the workout begins
+      if (elapsed < state.introDuration) {
         return {
           ...state,
-          introTimeRemaining: newIntroRemaining,
+          isInCountdownIntro: true,
+          introTimeRemaining: state.introDuration - elapsed,
         };
       }
 
       // MAIN WORKOUT TIMING
-      let newTime = state.currentTime + action.delta;
-      let newState = { ...state, currentTime: newTime };
+      const newTime = elapsed - state.introDuration;
+      let newState: TimerState = {
+        ...state,
+        currentTime: newTime,
+        isInCountdownIntro: false,
+        introTimeRemaining: 0,
+      };
 
       // COUNTDOWN MODE
       // Check if we've reached zero (totalTime - currentTime <= 0)
@@ -217,70 +597,104 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
         const remaining = state.countdown.totalTime * 1000 - newTime;
         if (remaining <= 0) {
           // Timer complete - stop at exactly 0:00
-          return {
-            ...state,
+          return completeRun(newState, {
             currentTime: state.countdown.totalTime * 1000,
-            isRunning: false,
-          };
+          });
         }
       }
 
       // TABATA MODE
-      // Track work/rest phases and round progression
+      // Track work/rest phases and set/round progression
       if (state.mode === "tabata") {
-        const { workTime, restTime, rounds } = state.tabata;
-        const cycleTime = (workTime + restTime) * 1000; // One full work+rest cycle in ms
-
-        // Calculate where we are within the current cycle
-        const currentCycleTime = newTime % cycleTime;
+        const position = locateTabata(state.tabata, newTime);
 
-        // Calculate current round (1-indexed)
-        const currentRound = Math.floor(newTime / cycleTime) + 1;
-
-        // Work phase = first part of cycle, rest phase = remainder
-        const isWorkPhase = currentCycleTime < workTime * 1000;
-
-        // Check if all rounds complete
-        if (currentRound > rounds) {
-          return {
-            ...state,
-            currentTime: rounds * cycleTime,
-            isRunning: false,
-            currentRound: rounds,
+        // Check if all sets (and the cool-down) are complete
+        if (position === null) {
+          return completeRun(newState, {
+            currentTime: getTabataTotalTime(state.tabata),
+            currentRound: state.tabata.rounds,
+            currentSet: state.tabata.sets,
             isWorkPhase: false,
-          };
+          });
         }
 
-        newState = { ...newState, currentRound, isWorkPhase };
+        newState = {
+          ...newState,
+          currentRound: position.round,
+          currentSet: position.set,
+          isWorkPhase: position.phase === "work",
+        };
       }
 
       // EMOM MODE
-      // Track minute progression
+      // Track interval progression (interval length is configurable, e.g. E2MOM)
       if (state.mode === "emom") {
-        const { totalMinutes } = state.emom;
-
-        // Calculate current minute (1-indexed)
-        const currentMinute = Math.floor(newTime / 60000) + 1;
-
-        // Check if all minutes complete
-        if (currentMinute > totalMinutes) {
-          return {
-            ...state,
-            currentTime: totalMinutes * 60000,
-            isRunning: false,
-            currentMinute: totalMinutes,
-          };
+        const { intervalTime, rounds } = state.emom;
+        const intervalMs = intervalTime * 1000;
+
+        // Calculate current interval (1-indexed)
+        const currentMinute = Math.floor(newTime / intervalMs) + 1;
+
+        // Check if all intervals complete
+        if (currentMinute > rounds) {
+          return completeRun(newState, {
+            currentTime: rounds * intervalMs,
+            currentMinute: rounds,
+          });
         }
 
         newState = { ...newState, currentMinute };
       }
 
+      // FOR TIME MODE
+      // Counts up like a stopwatch, but stops at the time cap
+      if (state.mode === "fortime") {
+        const { timeCap } = state.fortime;
+        if (newTime >= timeCap * 1000) {
+          return completeRun(newState, { currentTime: timeCap * 1000 });
+        }
+      }
+
+      // INTERVALS MODE
+      // Walk the segment list to find the current segment and repeat
+      if (state.mode === "intervals") {
+        const position = locateSegment(state.intervals, newTime);
+
+        // No position means all repeats complete (or nothing to run)
+        if (!position) {
+          const { segments, repeat } = state.intervals;
+          return completeRun(newState, {
+            currentTime: getIntervalTotalTime(state.intervals),
+            currentRound: repeat,
+            currentSegment: Math.max(1, segments.length),
+          });
+        }
+
+        const segment = state.intervals.segments[position.segmentIndex];
+        newState = {
+          ...newState,
+          currentRound: position.round,
+          currentSegment: position.segmentIndex + 1,
+          isWorkPhase: segment.kind === "work",
+        };
+      }
+
+      // REST MODE
+      // The session keeps running; a rest that's run out just ends
+      if (
+        state.mode === "rest" &&
+        state.restEndsAt !== null &&
+        newTime >= state.restEndsAt
+      ) {
+        newState = { ...newState, restEndsAt: null };
+      }
+
       // AMRAP MODE
       // Simple countdown - stop when total time reached
       if (state.mode === "amrap") {
         const { totalTime } = state.amrap;
         if (newTime >= totalTime * 1000) {
-          return { ...state, currentTime: totalTime * 1000, isRunning: false };
+          return completeRun(newState, { currentTime: totalTime * 1000 });
         }
       }
 
@@ -296,6 +710,12 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
       return { ...state, emom: action.settings };
     case "SET_AMRAP":
       return { ...state, amrap: action.settings };
+    case "SET_FORTIME":
+      return { ...state, fortime: action.settings };
+    case "SET_INTERVALS":
+      return { ...state, intervals: action.settings };
+    case "SET_REST":
+      return { ...state, rest: action.settings };
 
     /**
      * SET_COUNTDOWN_INTRO: Set the intro countdown duration
@@ -304,6 +724,95 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
     case "SET_COUNTDOWN_INTRO":
       return { ...state, countdownIntro: action.seconds };
 
+    /** SET_SOUND: Update volume, mute and final countdown pips */
+    case "SET_SOUND":
+      return { ...state, sound: action.settings };
+
+    /** SET_VOICE: Update spoken announcements */
+    case "SET_VOICE":
+      return { ...state, voice: action.settings };
+
+    /** SET_HAPTICS: Turn vibration on transitions on or off */
+    case "SET_HAPTICS":
+      return { ...state, haptics: action.enabled };
+
+    /** SET_FLASH: Update which modes flash, phase tint and reduced motion */
+    case "SET_FLASH":
+      return { ...state, flash: action.settings };
+
+    /**
+     * SET_PROGRAM: Run a list of blocks back to back, from the first
+     * Each block loads its mode, settings and intro in turn. An empty list
+     * leaves the program, keeping the current block's mode but putting back
+     * the user's own settings and intro.
+     */
+    case "SET_PROGRAM":
+      if (action.blocks.length === 0) {
+        return { ...leaveProgram(state), ...resetRunState };
+      }
+      return loadProgramStep(
+        {
+          ...state,
+          program: action.blocks,
+          // A program loaded over another keeps the setup from before both
+          setupBeforeProgram:
+            state.setupBeforeProgram ?? getWorkoutSetup(state),
+        },
+        { block: 0, isRest: false }
+      );
+
+    /**
+     * LOAD_SETTINGS: Restore saved settings on launch
+     * Each settings object is merged over the current one, so fields added
+     * since the settings were saved keep their defaults. Timing is reset as
+     * the mode may have changed.
+     */
+    case "LOAD_SETTINGS": {
+      const { settings } = action;
+      return {
+        ...state,
+        mode: settings.mode ?? state.mode,
+        countdown: { ...state.countdown, ...settings.countdown },
+        tabata: { ...state.tabata, ...settings.tabata },
+        emom: { ...state.emom, ...settings.emom },
+        amrap: { ...state.amrap, ...settings.amrap },
+        fortime: { ...state.fortime, ...settings.fortime },
+        rest: { ...state.rest, ...settings.rest },
+        intervals: { ...state.intervals, ...settings.intervals },
+        countdownIntro: settings.countdownIntro ?? state.countdownIntro,
+        haptics: settings.haptics ?? state.haptics,
+        sound: { ...state.sound, ...settings.sound },
+        voice: {
+          ...state.voice,
+          ...settings.voice,
+          cues: { ...state.voice.cues, ...settings.voice?.cues },
+        },
+        flash: {
+          ...state.flash,
+          ...settings.flash,
+          modes: { ...state.flash.modes, ...settings.flash?.modes },
+        },
+        ...resetRunState,
+      };
+    }
+
+    /**
+     * SYNC: Mirror another device's timer (remote control)
+     * Takes over everything except our own cue settings, then
+     * ticks so the derived fields match this device's clock.
+     */
+    case "SYNC":
+      return timerReducer(
+        {
+          ...action.state,
+          sound: state.sound,
+          voice: state.voice,
+          haptics: state.haptics,
+          flash: state.flash,
+        },
+        { type: "TICK", now: action.now }
+      );
+
     default:
       return state;
   }
@@ -321,67 +830,100 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
  * @returns {Function} reset - Reset timer to 0
  * @returns {Function} toggle - Toggle between start/stop
  * @returns {Function} setMode - Change timer mode
+ * @returns {Function} logRound - Log a completed AMRAP or For Time round
+ * @returns {Function} lap - Record a stopwatch lap
+ * @returns {Function} finish - Freeze the finish time of a For Time workout
+ * @returns {Function} startRest - Count a set and start resting (rest mode)
  * @returns {Function} setCountdown - Update countdown settings
  * @returns {Function} setTabata - Update tabata settings
  * @returns {Function} setEmom - Update emom settings
  * @returns {Function} setAmrap - Update amrap settings
+ * @returns {Function} setForTime - Update for time settings
+ * @returns {Function} setIntervals - Update intervals segments and repeat count
+ * @returns {Function} setRest - Update the rest length
+ * @returns {Function} setSound - Update audio cue settings
+ * @returns {Function} setVoice - Update spoken announcement settings
+ * @returns {Function} setHaptics - Turn vibration on or off
+ * @returns {Function} setFlash - Update screen flash settings
+ * @returns {Function} setProgram - Run a list of blocks back to back (empty to leave)
+ * @returns {Function} applyWorkout - Switch to a mode and load its settings (e.g. from a preset)
  */
 export function useTimer() {
   const [state, dispatch] = useReducer(timerReducer, initialState);
 
-  // Refs for interval management
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastTickRef = useRef<number>(0); // Timestamp of last tick for delta calculation
+  const hasLoadedRef = useRef(false); // Don't save defaults over stored settings
 
-  /**
-   * Timer Loop Effect
-   * Manages the setInterval that drives the timer.
-   *
-   * Why we use delta timing:
-   * setInterval(fn, 10) doesn't guarantee exactly 10ms between calls.
-   * By measuring actual elapsed time, we stay accurate even if the
-   * device is busy or the app was backgrounded briefly.
-   */
+  useAudioCues(state);
+  useVoiceCues(state);
+  useHaptics(state);
+
+  // Restore saved settings once on launch
   useEffect(() => {
-    if (state.isRunning) {
-      // Record start time for first delta calculation
-      lastTickRef.current = Date.now();
-
-      intervalRef.current = setInterval(() => {
-        const now = Date.now();
-        const delta = now - lastTickRef.current; // Actual ms elapsed
-        lastTickRef.current = now;
-        dispatch({ type: "TICK", delta });
-      }, 10); // 10ms = 100fps update rate for smooth display
-    } else {
-      // Clean up interval when stopped
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+    loadSettings().then((settings) => {
+      if (settings) {
+        dispatch({ type: "LOAD_SETTINGS", settings });
       }
+      hasLoadedRef.current = true;
+    });
+  }, []);
+
+  // Save settings whenever they change (but not on every tick)
+  useEffect(() => {
+    if (hasLoadedRef.current && state.program.length === 0) {
+      saveSettings(toPersistedSettings(state));
     }
+  }, [
+    state.mode,
+    state.countdown,
+    state.tabata,
+    state.emom,
+    state.amrap,
+    state.fortime,
+    state.intervals,
+    state.rest,
+    state.countdownIntro,
+    state.sound,
+    state.voice,
+    state.haptics,
+    state.flash,
+  ]);
 
-    // Cleanup on unmount
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [state.isRunning]);
+  useTickLoop(state.isRunning, dispatch);
 
   // Memoized action dispatchers
-  const start = useCallback(() => dispatch({ type: "START" }), []);
-  const stop = useCallback(() => dispatch({ type: "STOP" }), []);
+  const start = useCallback(
+    () => dispatch({ type: "START", now: Date.now() }),
+    []
+  );
+  const stop = useCallback(
+    () => dispatch({ type: "STOP", now: Date.now() }),
+    []
+  );
   const reset = useCallback(() => dispatch({ type: "RESET" }), []);
 
   const toggle = useCallback(() => {
     if (state.isRunning) {
-      dispatch({ type: "STOP" });
+      dispatch({ type: "STOP", now: Date.now() });
     } else {
-      dispatch({ type: "START" });
+      dispatch({ type: "START", now: Date.now() });
     }
   }, [state.isRunning]);
 
+  const logRound = useCallback(
+    () => dispatch({ type: "LOG_ROUND", now: Date.now() }),
+    []
+  );
+  const lap = useCallback(() => dispatch({ type: "LAP", now: Date.now() }), []);
+  const finish = useCallback(
+    () => dispatch({ type: "FINISH", now: Date.now() }),
+    []
+  );
+  const startRest = useCallback(
+    (duration?: number) =>
+      dispatch({ type: "START_REST", now: Date.now(), duration }),
+    []
+  );
+
   const setMode = useCallback(
     (mode: TimerMode) => dispatch({ type: "SET_MODE", mode }),
     []
@@ -417,17 +959,103 @@ export function useTimer() {
     []
   );
 
+  const setForTime = useCallback(
+    (settings: ForTimeSettings) => dispatch({ type: "SET_FORTIME", settings }),
+    []
+  );
+
+  const setIntervals = useCallback(
+    (settings: IntervalSettings) =>
+      dispatch({ type: "SET_INTERVALS", settings }),
+    []
+  );
+
+  const setRest = useCallback(
+    (settings: RestSettings) => dispatch({ type: "SET_REST", settings }),
+    []
+  );
+
+  const setSound = useCallback(
+    (settings: SoundSettings) => dispatch({ type: "SET_SOUND", settings }),
+    []
+  );
+
+  const setVoice = useCallback(
+    (settings: VoiceSettings) => dispatch({ type: "SET_VOICE", settings }),
+    []
+  );
+
+  const setHaptics = useCallback(
+    (enabled: boolean) => dispatch({ type: "SET_HAPTICS", enabled }),
+    []
+  );
+
+  const setFlash = useCallback(
+    (settings: FlashSettings) => dispatch({ type: "SET_FLASH", settings }),
+    []
+  );
+
+  const setProgram = useCallback(
+    (blocks: ProgramBlock[]) => dispatch({ type: "SET_PROGRAM", blocks }),
+    []
+  );
+
+  /**
+   * Load a saved mode + settings in one go
+   * Dispatches SET_MODE followed by the matching SET_* action
+   */
+  const applyWorkout = useCallback((config: WorkoutConfig) => {
+    dispatch({ type: "SET_MODE", mode: config.mode });
+
+    switch (config.mode) {
+      case "countdown":
+        dispatch({ type: "SET_COUNTDOWN", settings: config.settings });
+        break;
+      case "tabata":
+        dispatch({ type: "SET_TABATA", settings: config.settings });
+        break;
+      case "emom":
+        dispatch({ type: "SET_EMOM", settings: config.settings });
+        break;
+      case "amrap":
+        dispatch({ type: "SET_AMRAP", settings: config.settings });
+        break;
+      case "fortime":
+        dispatch({ type: "SET_FORTIME", settings: config.settings });
+        break;
+      case "intervals":
+        dispatch({ type: "SET_INTERVALS", settings: config.settings });
+        break;
+      case "rest":
+        dispatch({ type: "SET_REST", settings: config.settings });
+        break;
+    }
+  }, []);
+
   return {
     state,
     start,
     stop,
     reset,
     toggle,
+    logRound,
+    lap,
+    finish,
+    startRest,
     setMode,
     setCountdown,
     setTabata,
     setEmom,
     setAmrap,
+    setForTime,
+    setIntervals,
+    setRest,
     setCountdownIntro,
+    setSound,
+    setVoice,
+    setHaptics,
+    setFlash,
+    setProgram,
+    applyWorkout,
   };
 }
@@ -0,0 +1,35 @@
+/**
+ * useVoiceCues Hook
+ * =================
+ * Speaks rounds, phases, halfway, minutes remaining and "Time" with the
+ * phone's text-to-speech, for when a beep alone doesn't say enough.
+ *
+ * What gets said is worked out by getAnnouncement from the same events the
+ * beeps use (@see detectTimerEvents). Voice follows the sound settings:
+ * muting sound silences it too, and it speaks at the sound volume.
+ */
+
+import { useEffect, useRef } from "react";
+import * as Speech from "expo-speech";
+import { TimerState } from "../types";
+import { detectTimerEvents } from "../utils/timerEvents";
+import { getAnnouncement } from "../utils/announcements";
+
+export function useVoiceCues(state: TimerState) {
+  const prevStateRef = useRef<TimerState>(state);
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+
+    const { volume, muted } = state.sound;
+    if (!state.voice.enabled || muted || volume === 0) return;
+
+    const announcement = getAnnouncement(detectTimerEvents(prev, state), state);
+    if (announcement === null) return;
+
+    // A late phrase is worse than a cut-off one, so never queue behind the last
+    Speech.stop();
+    Speech.speak(announcement, { volume: volume / 100 });
+  }, [state]);
+}
@@ -0,0 +1,69 @@
+/**
+ * useWorkoutLinks Hook
+ * ====================
+ * Deep links that carry a workout, e.g.
+ * `gymclock://workout?w=1.WyJ0IiwyMCwxMCw4XQ.a8c4e68d` (@see shareCode).
+ *
+ * Calls `onWorkout` when the app is opened from one of these links, with
+ * either the workout or the reason it couldn't be read. Other links are
+ * ignored.
+ *
+ * ## Usage Example
+ * ```tsx
+ * useWorkoutLinks((result) => {
+ *   if (result.ok) timer.applyWorkout(result.value);
+ * });
+ *
+ * // Make a link for the current setup
+ * const link = createWorkoutLink(getWorkoutConfig(timer.state));
+ * ```
+ */
+
+import { useEffect, useRef } from "react";
+import * as Linking from "expo-linking";
+import { WorkoutConfig } from "../types";
+import { decodeWorkout, encodeWorkout } from "../utils/shareCode";
+import { Validated } from "../utils/workoutValidation";
+
+const LINK_PATH = "workout";
+
+/** A link that opens the app with this workout loaded */
+export function createWorkoutLink(config: WorkoutConfig): string {
+  return Linking.createURL(LINK_PATH, {
+    queryParams: { w: encodeWorkout(config) },
+  });
+}
+
+/**
+ * Read a workout from a link (or a bare share code, as a QR code might
+ * hold). Returns null if it isn't a workout link at all.
+ */
+export function readWorkoutLink(text: string): Validated<WorkoutConfig> | null {
+  if (/^\d+\.[\w-]*\.[0-9a-f]+$/.test(text.trim())) {
+    return decodeWorkout(text);
+  }
+
+  const { hostname, path, queryParams } = Linking.parse(text);
+  if (hostname !== LINK_PATH && path !== LINK_PATH) return null;
+
+  const code = queryParams?.w;
+  return typeof code === "string"
+    ? decodeWorkout(code)
+    : { ok: false, error: "This workout link is incomplete" };
+}
+
+export function useWorkoutLinks(
+  onWorkout: (result: Validated<WorkoutConfig>) => void
+) {
+  const url = Linking.useURL();
+  const onWorkoutRef = useRef(onWorkout); // Only react to new links
+  onWorkoutRef.current = onWorkout;
+
+  useEffect(() => {
+    if (!url) return;
+    const result = readWorkoutLink(url);
+    if (result) {
+      onWorkoutRef.current(result);
+    }
+  }, [url]);
+}
@@ -0,0 +1,296 @@
+import * as net from "net";
+import { NetModule } from "../net";
+import { createPairingCode, parsePairingCode } from "../pairing";
+import {
+  TimerSnapshot,
+  createLineReader,
+  hasBroadcastChange,
+  parseDisplayMessage,
+  parseRemoteMessage,
+  toLocalState,
+  toSnapshot,
+} from "../protocol";
+import { ControlServer, startControlServer } from "../controlServer";
+import {
+  ConnectionStatus,
+  ControlClient,
+  connectToDisplay,
+} from "../controlClient";
+import { createClockSync, measureOffset } from "../clockSync";
+import { initialState, timerReducer } from "../../hooks/useTimer";
+
+// Node's net module stands in for react-native-tcp-socket
+const nodeNet = net as unknown as NetModule;
+
+describe("pairing codes", () => {
+  it("round-trips a code on the same /24", () => {
+    const code = createPairingCode("192.168.1.23", "4817");
+    expect(code).toBe("023 4817");
+    expect(parsePairingCode(code!, "192.168.1.50")).toEqual({
+      host: "192.168.1.23",
+      pin: "4817",
+    });
+  });
+
+  it("accepts a full address", () => {
+    expect(parsePairingCode("10.0.2.2 0042", null)).toEqual({
+      host: "10.0.2.2",
+      pin: "0042",
+    });
+  });
+
+  it("rejects codes it can't use", () => {
+    expect(parsePairingCode("023 481", "192.168.1.50")).toBeNull();
+    expect(parsePairingCode("300 4817", "192.168.1.50")).toBeNull();
+    expect(parsePairingCode("023 4817", null)).toBeNull();
+    expect(createPairingCode("fe80::1", "4817")).toBeNull();
+  });
+});
+
+describe("protocol", () => {
+  it("splits chunks into lines however they arrive", () => {
+    const lines: string[] = [];
+    const read = createLineReader((line) => lines.push(line));
+    read('{"a":1}\n{"b"');
+    read(':2}\n\n{"c":3}');
+    read("\n");
+    expect(lines).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+  });
+
+  it("drops invalid commands", () => {
+    const line = (command: object) =>
+      parseRemoteMessage(JSON.stringify({ type: "command", command }));
+
+    expect(line({ action: "start" })).toEqual({
+      type: "command",
+      command: { action: "start" },
+    });
+    expect(line({ action: "explode" })).toBeNull();
+    expect(line({ action: "setMode", mode: "yoga" })).toBeNull();
+    expect(
+      line({ action: "setWorkout", config: { mode: "amrap", settings: {} } })
+    ).toBeNull();
+    expect(parseRemoteMessage("not json")).toBeNull();
+  });
+
+  it("drops snapshots whose state can't be mirrored", () => {
+    const line = (state: object) =>
+      parseDisplayMessage(
+        JSON.stringify({ type: "state", snapshot: { state, sentAt: 1000 } })
+      );
+
+    expect(line(initialState)).toEqual({
+      type: "state",
+      snapshot: { state: initialState, sentAt: 1000 },
+    });
+    expect(line({ ...initialState, currentTime: NaN })).toBeNull();
+    expect(line({ ...initialState, startedAt: "soon" })).toBeNull();
+    expect(line({ ...initialState, tabata: undefined })).toBeNull();
+    expect(
+      line({ ...initialState, emom: { intervalTime: -60, rounds: 10 } })
+    ).toBeNull();
+    expect(line({ ...initialState, program: [{ id: "a" }] })).toBeNull();
+    expect(line({ ...initialState, program: "ABC" })).toBeNull();
+  });
+
+  it("resends the state for a rest started mid-session, not for ticks", () => {
+    const resting = timerReducer(
+      { ...initialState, mode: "rest" },
+      { type: "START_REST", now: 0 }
+    );
+    const ticked = timerReducer(resting, { type: "TICK", now: 30_000 });
+    const idle = timerReducer(ticked, { type: "TICK", now: 100_000 });
+    const nextRest = timerReducer(idle, { type: "START_REST", now: 150_000 });
+
+    expect(hasBroadcastChange(resting, ticked)).toBe(false);
+    expect(hasBroadcastChange(idle, nextRest)).toBe(true);
+    // The rest's end and set count are enough on their own
+    expect(
+      hasBroadcastChange(idle, {
+        ...idle,
+        restEndsAt: nextRest.restEndsAt,
+        restSets: nextRest.restSets,
+      })
+    ).toBe(true);
+  });
+
+  it("moves the timing anchor onto the receiver's clock", () => {
+    const state = { ...initialState, isRunning: true, startedAt: 50_000 };
+    // Sender's clock is 2s ahead of ours
+    const local = toLocalState(toSnapshot(state, 60_000), 2000);
+    expect(local.startedAt).toBe(48_000);
+    expect(toLocalState(toSnapshot(initialState, 0), 2000).startedAt).toBe(
+      null
+    );
+  });
+});
+
+describe("clock sync", () => {
+  it("measures the offset from the middle of the round trip", () => {
+    // Their clock is 5s ahead; 40ms there and back
+    expect(
+      measureOffset({ sentAt: 1000, displayTime: 6020, receivedAt: 1040 })
+    ).toEqual({ offset: 5000, roundTrip: 40 });
+  });
+
+  it("trusts the quickest round trip", () => {
+    const clock = createClockSync();
+    expect(clock.offset()).toBeNull();
+
+    // Held up on the way back, so this one reads 100ms low
+    clock.add({ sentAt: 0, displayTime: 5010, receivedAt: 220 });
+    expect(clock.offset()).toBe(4900);
+
+    expect(
+      clock.add({ sentAt: 1000, displayTime: 6010, receivedAt: 1020 })
+    ).toBe(5000);
+    clock.add({ sentAt: 2000, displayTime: 7150, receivedAt: 2300 });
+    expect(clock.offset()).toBe(5000);
+  });
+});
+
+/** Resolves once `check` passes, polling until it does */
+async function waitFor(check: () => void, timeout = 2000) {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      check();
+      return;
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+}
+
+describe("display and remote over a real connection", () => {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  let server: ControlServer;
+  let client: ControlClient | null = null;
+  const commands: unknown[] = [];
+  let remoteCount = 0;
+
+  beforeEach(async () => {
+    commands.length = 0;
+    server = startControlServer({
+      net: nodeNet,
+      port,
+      pin: "1234",
+      getSnapshot: () => toSnapshot(initialState, 1000),
+      onCommand: (command) => commands.push(command),
+      onRemotesChange: (count) => (remoteCount = count),
+    });
+    // Give the server a moment to start listening
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+
+  afterEach(async () => {
+    client?.close();
+    client = null;
+    server.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+
+  function connect(pin: string) {
+    const statuses: ConnectionStatus[] = [];
+    const snapshots: TimerSnapshot[] = [];
+    const offsets: number[] = [];
+    client = connectToDisplay({
+      net: nodeNet,
+      host: "127.0.0.1",
+      port,
+      pin,
+      onStatus: (status) => statuses.push(status),
+      onState: (snapshot, clockOffset) => {
+        snapshots.push(snapshot);
+        offsets.push(clockOffset);
+      },
+    });
+    return { client, statuses, snapshots, offsets };
+  }
+
+  it("turns away a remote with the wrong PIN", async () => {
+    const { statuses, snapshots } = connect("9999");
+    await waitFor(() => expect(statuses).toContain("denied"));
+    expect(statuses).not.toContain("connected");
+    expect(snapshots).toHaveLength(0);
+    expect(remoteCount).toBe(0);
+  });
+
+  it("locks out an address after too many wrong PINs", async () => {
+    for (let i = 0; i < 5; i++) {
+      const { client, statuses } = connect("9999");
+      await waitFor(() => expect(statuses).toContain("denied"));
+      client.close();
+    }
+
+    const { statuses, snapshots } = connect("1234");
+    await waitFor(() => expect(statuses).toContain("denied"));
+    expect(snapshots).toHaveLength(0);
+    expect(remoteCount).toBe(0);
+  });
+
+  it("pairs, sends the current state and runs commands", async () => {
+    const { client, statuses, snapshots } = connect("1234");
+    await waitFor(() => expect(snapshots.length).toBeGreaterThan(0));
+    expect(statuses).toEqual(["connecting", "connected"]);
+    expect(snapshots[0].sentAt).toBe(1000);
+    expect(remoteCount).toBe(1);
+
+    client.send({ action: "start" });
+    client.send({ action: "setMode", mode: "emom" });
+    await waitFor(() => expect(commands).toHaveLength(2));
+    expect(commands).toEqual([
+      { action: "start" },
+      { action: "setMode", mode: "emom" },
+    ]);
+  });
+
+  it("streams state changes to the remote", async () => {
+    const { snapshots } = connect("1234");
+    await waitFor(() => expect(snapshots.length).toBeGreaterThan(0));
+
+    const running = {
+      ...initialState,
+      mode: "amrap" as const,
+      isRunning: true,
+    };
+    server.broadcast(toSnapshot(running, 2000));
+    await waitFor(() =>
+      expect(snapshots[snapshots.length - 1].state.mode).toBe("amrap")
+    );
+    expect(snapshots[snapshots.length - 1].state.isRunning).toBe(true);
+  });
+
+  it("corrects for the difference between the two clocks", async () => {
+    const { snapshots, offsets } = connect("1234");
+    await waitFor(() => expect(snapshots.length).toBeGreaterThan(1));
+
+    // The first guess compares the snapshot's made-up sentAt with our clock;
+    // the pong then shows both ends share one clock
+    expect(offsets[0]).toBeLessThan(-1_000_000);
+    expect(Math.abs(offsets[offsets.length - 1])).toBeLessThan(50);
+    expect(snapshots[snapshots.length - 1]).toEqual(snapshots[0]);
+  });
+
+  it("reconnects and resyncs when the display comes back", async () => {
+    const { statuses, snapshots } = connect("1234");
+    await waitFor(() => expect(snapshots.length).toBeGreaterThan(0));
+
+    server.close();
+    await waitFor(() => expect(statuses).toContain("disconnected"));
+
+    const running = { ...initialState, mode: "emom" as const, isRunning: true };
+    server = startControlServer({
+      net: nodeNet,
+      port,
+      pin: "1234",
+      getSnapshot: () => toSnapshot(running, Date.now()),
+      onCommand: () => {},
+    });
+    await waitFor(() => {
+      expect(snapshots[snapshots.length - 1].state.mode).toBe("emom");
+    }, 4000);
+    expect(statuses.slice(-2)).toEqual(["connecting", "connected"]);
+  });
+});
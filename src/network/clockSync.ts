@@ -0,0 +1,61 @@
+/**
+ * Clock Sync
+ * ==========
+ * Two phones' clocks (Date.now()) can disagree by a second or more, which
+ * is plenty to put one screen's Tabata REST a beat behind another's. So
+ * before trusting a display's timing anchor, a remote works out how far
+ * the display's clock is ahead of its own.
+ *
+ * It's the usual NTP trick. A ping leaves at `sentAt` on our clock, the
+ * display answers with its clock reading `displayTime`, and the pong gets
+ * back at `receivedAt`. If the trip took as long each way, the display read
+ * its clock halfway through, at (sentAt + receivedAt) / 2 on ours - so the
+ * offset is exact to within half the round trip.
+ *
+ * A slow round trip was probably held up on one leg only, so of the recent
+ * samples we trust the one with the shortest round trip.
+ */
+
+export interface ClockSample {
+  sentAt: number; // our clock
+  displayTime: number; // their clock
+  receivedAt: number; // our clock
+}
+
+const MAX_SAMPLES = 8; // Recent enough to follow a clock that drifts
+
+/** How far the display's clock is ahead of ours, by one ping */
+export function measureOffset({
+  sentAt,
+  displayTime,
+  receivedAt,
+}: ClockSample): { offset: number; roundTrip: number } {
+  return {
+    offset: Math.round(displayTime - (sentAt + receivedAt) / 2),
+    roundTrip: receivedAt - sentAt,
+  };
+}
+
+/**
+ * Collects ping samples and keeps the best offset estimate.
+ * `add` returns the estimate with the new sample included.
+ */
+export function createClockSync() {
+  const samples: { offset: number; roundTrip: number }[] = [];
+
+  const offset = (): number | null => {
+    if (samples.length === 0) return null;
+    return samples.reduce((best, s) =>
+      s.roundTrip < best.roundTrip ? s : best
+    ).offset;
+  };
+
+  return {
+    add: (sample: ClockSample): number => {
+      samples.push(measureOffset(sample));
+      if (samples.length > MAX_SAMPLES) samples.shift();
+      return offset()!;
+    },
+    offset,
+  };
+}
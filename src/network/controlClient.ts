@@ -0,0 +1,168 @@
+import { NetModule, NetSocket } from "./net";
+import {
+  CONTROL_PORT,
+  RemoteCommand,
+  TimerSnapshot,
+  createLineReader,
+  encodeMessage,
+  parseDisplayMessage,
+} from "./protocol";
+import { createClockSync } from "./clockSync";
+
+export type ConnectionStatus =
+  | "connecting"
+  | "connected"
+  | "denied" // wrong PIN
+  | "disconnected"; // retrying shortly
+
+export interface ControlClientOptions {
+  net: NetModule;
+  host: string;
+  port?: number;
+  pin: string;
+  /**
+   * The display's latest snapshot, and how far its clock is ahead of ours
+   * (@see toLocalState). Called again with the same snapshot whenever the
+   * clock offset estimate improves.
+   */
+  onState: (snapshot: TimerSnapshot, clockOffset: number) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface ControlClient {
+  send: (command: RemoteCommand) => void;
+  close: () => void;
+}
+
+const PING_INTERVAL = 2000;
+const SILENCE_TIMEOUT = 6000; // No word from the display for this long = gone
+const RETRY_DELAYS = [1000, 2000, 5000]; // then every 5s until closed
+
+/**
+ * The remote's side of the remote control (@see protocol).
+ * Connects and pairs with a display, then passes on every snapshot it
+ * sends. Commands sent while not paired are dropped.
+ *
+ * If the display goes away - it closes the connection, or stops answering
+ * pings - we keep reconnecting until `close` is called, and the display
+ * sends its current state as soon as we're back. Only a wrong PIN stops us.
+ */
+export function connectToDisplay({
+  net,
+  host,
+  port = CONTROL_PORT,
+  pin,
+  onState,
+  onStatus,
+}: ControlClientOptions): ControlClient {
+  let status: ConnectionStatus = "connecting";
+  let isClosed = false; // closed by us, so stay quiet
+  let socket: NetSocket | null = null;
+  let watchdog: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retries = 0;
+
+  const clockSync = createClockSync();
+  let clockOffset: number | null = null;
+  let lastSnapshot: TimerSnapshot | null = null;
+
+  const setStatus = (next: ConnectionStatus) => {
+    status = next;
+    if (!isClosed) onStatus(next);
+  };
+
+  const emitState = () => {
+    if (lastSnapshot && clockOffset !== null && !isClosed) {
+      onState(lastSnapshot, clockOffset);
+    }
+  };
+
+  const open = () => {
+    const connection = net.createConnection({ host, port }, () => {
+      connection.write(encodeMessage({ type: "hello", pin }));
+    });
+    socket = connection;
+
+    const ping = () =>
+      connection.write(encodeMessage({ type: "ping", sentAt: Date.now() }));
+
+    // Also catches connects that hang, e.g. to an address nobody has
+    let lastHeardAt = Date.now();
+    watchdog = setInterval(() => {
+      if (Date.now() - lastHeardAt > SILENCE_TIMEOUT) {
+        connection.destroy();
+      } else if (status === "connected") {
+        ping();
+      }
+    }, PING_INTERVAL);
+
+    const readLine = createLineReader((line) => {
+      const message = parseDisplayMessage(line);
+      if (!message) return;
+      lastHeardAt = Date.now();
+
+      switch (message.type) {
+        case "welcome":
+          retries = 0;
+          setStatus("connected");
+          ping();
+          break;
+        case "denied":
+          setStatus("denied");
+          break;
+        case "state":
+          lastSnapshot = message.snapshot;
+          // Until a pong comes back, assume the message arrived instantly
+          clockOffset ??= message.snapshot.sentAt - Date.now();
+          emitState();
+          break;
+        case "pong": {
+          const offset = clockSync.add({
+            sentAt: message.sentAt,
+            displayTime: message.displayTime,
+            receivedAt: Date.now(),
+          });
+          if (offset !== clockOffset) {
+            clockOffset = offset;
+            emitState();
+          }
+          break;
+        }
+      }
+    });
+
+    connection.setEncoding("utf8");
+    connection.on("data", (data) => readLine(data.toString()));
+    connection.on("error", () => {}); // "close" follows
+    connection.on("close", () => {
+      if (watchdog) clearInterval(watchdog);
+      watchdog = null;
+      if (isClosed || status === "denied") return;
+
+      setStatus("disconnected");
+      const delay = RETRY_DELAYS[Math.min(retries, RETRY_DELAYS.length - 1)];
+      retries++;
+      retryTimer = setTimeout(() => {
+        setStatus("connecting");
+        open();
+      }, delay);
+    });
+  };
+
+  onStatus(status);
+  open();
+
+  return {
+    send: (command) => {
+      if (status === "connected") {
+        socket?.write(encodeMessage({ type: "command", command }));
+      }
+    },
+    close: () => {
+      isClosed = true;
+      if (watchdog) clearInterval(watchdog);
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.destroy();
+    },
+  };
+}
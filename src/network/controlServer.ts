@@ -0,0 +1,136 @@
+import { NetModule, NetSocket } from "./net";
+import {
+  CONTROL_PORT,
+  RemoteCommand,
+  TimerSnapshot,
+  createLineReader,
+  encodeMessage,
+  parseRemoteMessage,
+} from "./protocol";
+
+export interface ControlServerOptions {
+  net: NetModule;
+  port?: number;
+  pin: string; // remotes must send this to pair
+  getSnapshot: () => TimerSnapshot; // sent to each remote as it pairs
+  onCommand: (command: RemoteCommand) => void;
+  onRemotesChange?: (count: number) => void; // number of paired remotes
+  onError?: (error: Error) => void;
+}
+
+export interface ControlServer {
+  broadcast: (snapshot: TimerSnapshot) => void;
+  close: () => void;
+}
+
+/** Wrong PINs allowed from one address before it's locked out */
+const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_MS = 60_000;
+
+interface PinAttempts {
+  failures: number;
+  lockedUntil: number; // Date.now() the lockout ends (0 = not locked)
+}
+
+/**
+ * The display's side of the remote control (@see protocol).
+ * Listens for remotes, pairs the ones that know the PIN, runs their
+ * commands, answers their pings and sends them every snapshot passed to
+ * `broadcast`.
+ *
+ * The PIN is only 4 digits and the server listens on every interface, so
+ * an address that gets it wrong MAX_PIN_ATTEMPTS times in a row is turned
+ * away (right PIN or not) for LOCKOUT_MS. That makes guessing through all
+ * 10,000 PINs take days rather than seconds.
+ */
+export function startControlServer({
+  net,
+  port = CONTROL_PORT,
+  pin,
+  getSnapshot,
+  onCommand,
+  onRemotesChange,
+  onError,
+}: ControlServerOptions): ControlServer {
+  const remotes = new Set<NetSocket>();
+  const attempts = new Map<string, PinAttempts>(); // by remote address
+
+  const server = net.createServer((socket) => {
+    let isPaired = false;
+
+    const readLine = createLineReader((line) => {
+      const message = parseRemoteMessage(line);
+      if (!message) return; // Ignore anything we don't understand
+
+      if (!isPaired) {
+        const address = socket.remoteAddress ?? "";
+        const now = Date.now();
+        const previous = attempts.get(address);
+
+        if (previous && previous.lockedUntil > now) {
+          socket.end(
+            encodeMessage({
+              type: "denied",
+              reason: "Too many wrong codes - try again in a minute",
+            })
+          );
+        } else if (message.type === "hello" && message.pin === pin) {
+          attempts.delete(address);
+          isPaired = true;
+          remotes.add(socket);
+          onRemotesChange?.(remotes.size);
+          socket.write(encodeMessage({ type: "welcome" }));
+          socket.write(
+            encodeMessage({ type: "state", snapshot: getSnapshot() })
+          );
+        } else {
+          const failures = (previous?.failures ?? 0) + 1;
+          attempts.set(
+            address,
+            failures >= MAX_PIN_ATTEMPTS
+              ? { failures: 0, lockedUntil: now + LOCKOUT_MS }
+              : { failures, lockedUntil: 0 }
+          );
+          socket.end(encodeMessage({ type: "denied", reason: "Wrong code" }));
+        }
+        return;
+      }
+
+      if (message.type === "command") {
+        onCommand(message.command);
+      } else if (message.type === "ping") {
+        socket.write(
+          encodeMessage({
+            type: "pong",
+            sentAt: message.sentAt,
+            displayTime: Date.now(),
+          })
+        );
+      }
+    });
+
+    socket.setEncoding("utf8");
+    socket.on("data", (data) => readLine(data.toString()));
+    socket.on("error", () => {}); // "close" follows
+    socket.on("close", () => {
+      if (remotes.delete(socket)) {
+        onRemotesChange?.(remotes.size);
+      }
+    });
+  });
+
+  server.on("error", (error) => onError?.(error));
+  server.listen({ port, host: "0.0.0.0" });
+
+  return {
+    broadcast: (snapshot) => {
+      const line = encodeMessage({ type: "state", snapshot });
+      remotes.forEach((socket) => socket.write(line));
+    },
+    close: () => {
+      remotes.forEach((socket) => socket.destroy());
+      remotes.clear();
+      server.close();
+    },
+  };
+}
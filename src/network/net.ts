@@ -0,0 +1,35 @@
+/**
+ * The parts of a TCP library the remote control needs.
+ *
+ * On the device this is react-native-tcp-socket; Node's `net` module has the
+ * same shape, so the protocol can be tested with real connections between
+ * two local instances.
+ */
+
+export interface NetSocket {
+  remoteAddress?: string;
+  write(data: string): unknown;
+  end(data?: string): unknown;
+  destroy(): unknown;
+  setEncoding(encoding: "utf8"): unknown;
+  on(
+    event: "data",
+    listener: (data: string | { toString(): string }) => void
+  ): unknown;
+  on(event: "close", listener: () => void): unknown;
+  on(event: "error", listener: (error: Error) => void): unknown;
+}
+
+export interface NetServer {
+  listen(options: { port: number; host?: string }): unknown;
+  close(): unknown;
+  on(event: "error", listener: (error: Error) => void): unknown;
+}
+
+export interface NetModule {
+  createServer(onConnection: (socket: NetSocket) => void): NetServer;
+  createConnection(
+    options: { host: string; port: number },
+    onConnect: () => void
+  ): NetSocket;
+}
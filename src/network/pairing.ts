@@ -0,0 +1,68 @@
+/**
+ * Pairing Codes
+ * =============
+ * The display shows a 7-digit code like `023 4817`: the last part of its
+ * IP address (`.23`) and a random 4-digit PIN. The remote fills in the rest
+ * of the address from its own, which works on the usual home/gym network
+ * where every device shares the first three parts (a /24).
+ *
+ * On anything else (or to reach an emulator) the address can be typed in
+ * full instead, e.g. `10.0.2.2 4817`.
+ */
+
+export interface PairingTarget {
+  host: string;
+  pin: string;
+}
+
+export function createPin(): string {
+  return Math.floor(Math.random() * 10000)
+    .toString()
+    .padStart(4, "0");
+}
+
+function parseIPv4(ip: string): number[] | null {
+  const parts = ip.trim().split(".");
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every((o) => o <= 255) ? octets : null;
+}
+
+/** The code a display shows, or null if its address isn't IPv4 */
+export function createPairingCode(ip: string, pin: string): string | null {
+  const octets = parseIPv4(ip);
+  if (!octets) return null;
+  return `${octets[3].toString().padStart(3, "0")} ${pin}`;
+}
+
+/**
+ * Work out where to connect from a code typed on the remote.
+ * `ownIp` is the remote's address. Returns null if the code isn't valid.
+ */
+export function parsePairingCode(
+  code: string,
+  ownIp: string | null
+): PairingTarget | null {
+  const text = code.trim();
+
+  // Full address: "10.0.2.2 4817"
+  const full = text.match(/^([\d.]+)\s+(\d{4})$/);
+  if (full && full[1].includes(".")) {
+    return parseIPv4(full[1]) ? { host: full[1], pin: full[2] } : null;
+  }
+
+  // Short code: "023 4817", "0234817", "023-4817"
+  const digits = text.replace(/[\s-]/g, "");
+  if (!/^\d{7}$/.test(digits) || ownIp === null) return null;
+
+  const own = parseIPv4(ownIp);
+  const lastOctet = Number(digits.slice(0, 3));
+  if (!own || lastOctet > 255) return null;
+
+  return {
+    host: [...own.slice(0, 3), lastOctet].join("."),
+    pin: digits.slice(3),
+  };
+}
@@ -0,0 +1,526 @@
+/**
+ * Remote Control Protocol
+ * =======================
+ * How a remote (a phone) talks to a display (the wall clock) over the local
+ * network. Messages are JSON objects, one per line, over a TCP connection to
+ * the display on CONTROL_PORT.
+ *
+ * ## Remote -> Display
+ * - `{ type: "hello", pin }` - must be the first message; a wrong PIN
+ *   gets `denied` and the connection is closed. After a few wrong PINs
+ *   from one address, it's turned away for a while (@see controlServer).
+ * - `{ type: "command", command }` - a RemoteCommand
+ * - `{ type: "ping", sentAt }` - `sentAt` on the remote's clock
+ *
+ * ## Display -> Remote
+ * - `{ type: "welcome" }` - paired, a `state` message follows straight away
+ * - `{ type: "denied", reason }`
+ * - `{ type: "state", snapshot }` - sent whenever the display's timer
+ *   changes (but not on every tick - the remote runs its own ticks from
+ *   the snapshot's timing anchor). The remote checks the whole state,
+ *   settings included, before mirroring it.
+ * - `{ type: "pong", sentAt, displayTime }` - the ping's `sentAt` back, with
+ *   the display's clock when it answered (@see clockSync)
+ *
+ * Remotes ping every couple of seconds once paired, which also tells them
+ * when a display has gone quiet.
+ */
+
+import {
+  FlashSettings,
+  Lap,
+  ProgramBlock,
+  SoundSettings,
+  TimerMode,
+  TimerState,
+  VoiceSettings,
+  WorkoutConfig,
+  WorkoutSetup,
+} from "../types";
+import { TIMER_MODES } from "../utils/workoutConfig";
+import { Fields, isObject } from "../utils/isObject";
+import { validateWorkoutConfig } from "../utils/workoutValidation";
+
+export const CONTROL_PORT = 7878;
+
+export type RemoteCommand =
+  | { action: "start" | "stop" | "toggle" | "reset" }
+  | { action: "logRound" | "lap" | "finish" }
+  | { action: "startRest"; duration?: number } // seconds (rest mode)
+  | { action: "setMode"; mode: TimerMode }
+  | { action: "setWorkout"; config: WorkoutConfig };
+
+/**
+ * A display's timer at a moment in time. `state.startedAt` is on the
+ * display's clock, so `sentAt` (also on its clock) is sent along for the
+ * receiver to convert it to its own (@see toLocalState).
+ */
+export interface TimerSnapshot {
+  state: TimerState;
+  sentAt: number;
+}
+
+export type RemoteMessage =
+  | { type: "hello"; pin: string }
+  | { type: "command"; command: RemoteCommand }
+  | { type: "ping"; sentAt: number };
+
+export type DisplayMessage =
+  | { type: "welcome" }
+  | { type: "denied"; reason: string }
+  | { type: "state"; snapshot: TimerSnapshot }
+  | { type: "pong"; sentAt: number; displayTime: number };
+
+export function encodeMessage(message: RemoteMessage | DisplayMessage): string {
+  return JSON.stringify(message) + "\n";
+}
+
+function parseJson(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
+
+/** Modes with settings of their own, kept in TimerState under their name */
+const SETTINGS_MODES = [
+  "countdown",
+  "tabata",
+  "emom",
+  "amrap",
+  "fortime",
+  "intervals",
+  "rest",
+] as const;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isNullableNumber(value: unknown): value is number | null {
+  return value === null || isNumber(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === "boolean";
+}
+
+type ModeSettings = Pick<TimerState, (typeof SETTINGS_MODES)[number]>;
+
+function parseModeSettings(value: Fields): ModeSettings | null {
+  const found: Partial<ModeSettings> = {};
+  for (const mode of SETTINGS_MODES) {
+    const checked = validateWorkoutConfig({ mode, settings: value[mode] });
+    if (!checked.ok) return null;
+    const config = checked.value;
+    switch (config.mode) {
+      case "countdown":
+        found.countdown = config.settings;
+        break;
+      case "tabata":
+        found.tabata = config.settings;
+        break;
+      case "emom":
+        found.emom = config.settings;
+        break;
+      case "amrap":
+        found.amrap = config.settings;
+        break;
+      case "fortime":
+        found.fortime = config.settings;
+        break;
+      case "intervals":
+        found.intervals = config.settings;
+        break;
+      case "rest":
+        found.rest = config.settings;
+        break;
+    }
+  }
+
+  const { countdown, tabata, emom, amrap, fortime, intervals, rest } = found;
+  if (!countdown || !tabata || !emom || !amrap) return null;
+  if (!fortime || !intervals || !rest) return null;
+  return { countdown, tabata, emom, amrap, fortime, intervals, rest };
+}
+
+/**
+ * The setup put aside while a program runs. Null outside a program, so
+ * undefined is what says it's unusable.
+ */
+function parseWorkoutSetup(value: unknown): WorkoutSetup | null | undefined {
+  if (value === null) return null;
+  if (!isObject(value) || !isNumber(value.countdownIntro)) return undefined;
+  const settings = parseModeSettings(value);
+  return settings
+    ? { ...settings, countdownIntro: value.countdownIntro }
+    : undefined;
+}
+
+function parseLaps(value: unknown): Lap[] | null {
+  if (!Array.isArray(value)) return null;
+  const laps: Lap[] = [];
+  for (const lap of value) {
+    if (!isObject(lap) || !isNumber(lap.elapsed) || !isNumber(lap.split)) {
+      return null;
+    }
+    laps.push({ elapsed: lap.elapsed, split: lap.split });
+  }
+  return laps;
+}
+
+function parseProgramBlock(value: unknown): ProgramBlock | null {
+  if (!isObject(value) || typeof value.id !== "string") return null;
+  if (!isNumber(value.intro) || !isNumber(value.restAfter)) return null;
+
+  const config = validateWorkoutConfig(value.config);
+  if (!config.ok) return null;
+  return {
+    id: value.id,
+    config: config.value,
+    intro: value.intro,
+    restAfter: value.restAfter,
+  };
+}
+
+function parseProgram(value: unknown): ProgramBlock[] | null {
+  if (!Array.isArray(value)) return null;
+  const program: ProgramBlock[] = [];
+  for (const item of value) {
+    const block = parseProgramBlock(item);
+    if (!block) return null;
+    program.push(block);
+  }
+  return program;
+}
+
+function parseSound(value: unknown): SoundSettings | null {
+  if (!isObject(value)) return null;
+  const { volume, muted, finalCountdown } = value;
+  if (!isNumber(volume) || !isBoolean(muted) || !isBoolean(finalCountdown)) {
+    return null;
+  }
+  return { volume, muted, finalCountdown };
+}
+
+function parseVoice(value: unknown): VoiceSettings | null {
+  if (!isObject(value) || !isObject(value.cues)) return null;
+  const { enabled, remainingEvery } = value;
+  if (!isBoolean(enabled) || !isNumber(remainingEvery)) return null;
+
+  const { start, rounds, halfway, remaining, finish } = value.cues;
+  if (
+    !isBoolean(start) ||
+    !isBoolean(rounds) ||
+    !isBoolean(halfway) ||
+    !isBoolean(remaining) ||
+    !isBoolean(finish)
+  ) {
+    return null;
+  }
+  return {
+    enabled,
+    cues: { start, rounds, halfway, remaining, finish },
+    remainingEvery,
+  };
+}
+
+function parseFlash(value: unknown): FlashSettings | null {
+  if (!isObject(value) || !isObject(value.modes)) return null;
+  const { phaseTint, reducedMotion } = value;
+  if (!isBoolean(phaseTint) || !isBoolean(reducedMotion)) return null;
+
+  const { countdown, tabata, emom, amrap, fortime, intervals, rest } =
+    value.modes;
+  if (
+    !isBoolean(countdown) ||
+    !isBoolean(tabata) ||
+    !isBoolean(emom) ||
+    !isBoolean(amrap) ||
+    !isBoolean(fortime) ||
+    !isBoolean(intervals) ||
+    !isBoolean(rest)
+  ) {
+    return null;
+  }
+  return {
+    modes: { countdown, tabata, emom, amrap, fortime, intervals, rest },
+    phaseTint,
+    reducedMotion,
+  };
+}
+
+/**
+ * Check a timer state from the network, or null if any of it is unusable.
+ * A display only ever sends states its own reducer made, so nothing is
+ * repaired: one bad field rejects the whole snapshot.
+ */
+function parseTimerState(value: unknown): TimerState | null {
+  if (!isObject(value)) return null;
+  const mode = TIMER_MODES.find((timerMode) => timerMode === value.mode);
+  if (!mode) return null;
+
+  const {
+    isRunning,
+    isWorkPhase,
+    isProgramRest,
+    isInCountdownIntro,
+    haptics,
+    currentTime,
+    accumulatedTime,
+    introDuration,
+    introTimeRemaining,
+    countdownIntro,
+    currentRound,
+    currentSet,
+    currentMinute,
+    currentSegment,
+    restSets,
+    restDuration,
+    programBlock,
+    startedAt,
+    finishTime,
+    restEndsAt,
+    amrapRounds,
+  } = value;
+  if (
+    !isBoolean(isRunning) ||
+    !isBoolean(isWorkPhase) ||
+    !isBoolean(isProgramRest) ||
+    !isBoolean(isInCountdownIntro) ||
+    !isBoolean(haptics)
+  ) {
+    return null;
+  }
+  if (
+    !isNumber(currentTime) ||
+    !isNumber(accumulatedTime) ||
+    !isNumber(introDuration) ||
+    !isNumber(introTimeRemaining) ||
+    !isNumber(countdownIntro) ||
+    !isNumber(currentRound) ||
+    !isNumber(currentSet) ||
+    !isNumber(currentMinute) ||
+    !isNumber(currentSegment) ||
+    !isNumber(restSets) ||
+    !isNumber(restDuration) ||
+    !isNumber(programBlock)
+  ) {
+    return null;
+  }
+  if (
+    !isNullableNumber(startedAt) ||
+    !isNullableNumber(finishTime) ||
+    !isNullableNumber(restEndsAt)
+  ) {
+    return null;
+  }
+  if (!Array.isArray(amrapRounds) || !amrapRounds.every(isNumber)) {
+    return null;
+  }
+
+  const settings = parseModeSettings(value);
+  const laps = parseLaps(value.laps);
+  const program = parseProgram(value.program);
+  const setupBeforeProgram = parseWorkoutSetup(value.setupBeforeProgram);
+  if (!settings || !laps || !program || setupBeforeProgram === undefined) {
+    return null;
+  }
+
+  const sound = parseSound(value.sound);
+  const voice = parseVoice(value.voice);
+  const flash = parseFlash(value.flash);
+  if (!sound || !voice || !flash) return null;
+
+  return {
+    ...settings,
+    mode,
+    isRunning,
+    currentTime,
+    startedAt,
+    accumulatedTime,
+    introDuration,
+    currentRound,
+    isWorkPhase,
+    currentSet,
+    currentMinute,
+    currentSegment,
+    amrapRounds,
+    laps,
+    finishTime,
+    restEndsAt,
+    restSets,
+    restDuration,
+    program,
+    programBlock,
+    isProgramRest,
+    setupBeforeProgram,
+    countdownIntro,
+    isInCountdownIntro,
+    introTimeRemaining,
+    sound,
+    voice,
+    haptics,
+    flash,
+  };
+}
+
+/** Check a command from the network, or null if it isn't a valid one */
+export function parseCommand(value: unknown): RemoteCommand | null {
+  if (!isObject(value)) return null;
+
+  switch (value.action) {
+    case "start":
+    case "stop":
+    case "toggle":
+    case "reset":
+    case "logRound":
+    case "lap":
+    case "finish":
+      return { action: value.action };
+    case "startRest": {
+      const { duration } = value;
+      if (duration === undefined) return { action: "startRest" };
+      return typeof duration === "number" &&
+        Number.isInteger(duration) &&
+        duration > 0
+        ? { action: "startRest", duration }
+        : null;
+    }
+    case "setMode": {
+      const mode = TIMER_MODES.find((timerMode) => timerMode === value.mode);
+      return mode ? { action: "setMode", mode } : null;
+    }
+    case "setWorkout": {
+      const config = validateWorkoutConfig(value.config);
+      return config.ok ? { action: "setWorkout", config: config.value } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** A line from a remote, or null if it's garbage */
+export function parseRemoteMessage(line: string): RemoteMessage | null {
+  const message = parseJson(line);
+  if (!isObject(message)) return null;
+
+  if (message.type === "hello" && typeof message.pin === "string") {
+    return { type: "hello", pin: message.pin };
+  }
+  if (message.type === "command") {
+    const command = parseCommand(message.command);
+    return command ? { type: "command", command } : null;
+  }
+  if (message.type === "ping" && typeof message.sentAt === "number") {
+    return { type: "ping", sentAt: message.sentAt };
+  }
+  return null;
+}
+
+/** A line from a display, or null if it's garbage */
+export function parseDisplayMessage(line: string): DisplayMessage | null {
+  const message = parseJson(line);
+  if (!isObject(message)) return null;
+
+  switch (message.type) {
+    case "welcome":
+      return { type: "welcome" };
+    case "denied":
+      return { type: "denied", reason: String(message.reason ?? "") };
+    case "state": {
+      const { snapshot } = message;
+      if (!isObject(snapshot) || !isNumber(snapshot.sentAt)) return null;
+      const state = parseTimerState(snapshot.state);
+      return state
+        ? { type: "state", snapshot: { state, sentAt: snapshot.sentAt } }
+        : null;
+    }
+    case "pong":
+      return typeof message.sentAt === "number" &&
+        typeof message.displayTime === "number"
+        ? {
+            type: "pong",
+            sentAt: message.sentAt,
+            displayTime: message.displayTime,
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split a stream of chunks into lines.
+ * TCP doesn't keep message boundaries, so a chunk can hold half a message
+ * or several; the leftover is kept until the rest arrives.
+ */
+export function createLineReader(onLine: (line: string) => void) {
+  let buffer = "";
+  return (chunk: string) => {
+    buffer += chunk;
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffer.indexOf("\n");
+    }
+  };
+}
+
+/**
+ * The parts of TimerState a display's snapshot has to be resent for.
+ * Everything else is either derived from the timing anchor (so the remote
+ * works it out on its own ticks) or a cue setting the remote keeps local.
+ */
+const BROADCAST_FIELDS: (keyof TimerState)[] = [
+  "mode",
+  "isRunning",
+  "startedAt",
+  "accumulatedTime",
+  "countdownIntro",
+  "countdown",
+  "tabata",
+  "emom",
+  "amrap",
+  "fortime",
+  "intervals",
+  "rest",
+  "amrapRounds",
+  "laps",
+  "finishTime",
+  "restEndsAt",
+  "restSets",
+  "restDuration",
+  "program",
+];
+
+/** Whether going from `prev` to `next` needs a new snapshot sent */
+export function hasBroadcastChange(
+  prev: TimerState,
+  next: TimerState
+): boolean {
+  return BROADCAST_FIELDS.some((key) => prev[key] !== next[key]);
+}
+
+export function toSnapshot(state: TimerState, now: number): TimerSnapshot {
+  return { state, sentAt: now };
+}
+
+/**
+ * The snapshot's state with its timing anchor moved onto this device's clock.
+ * `clockOffset` is how far the sender's clock is ahead of ours
+ * (@see clockSync).
+ */
+export function toLocalState(
+  snapshot: TimerSnapshot,
+  clockOffset: number
+): TimerState {
+  const { state } = snapshot;
+  return {
+    ...state,
+    startedAt: state.startedAt === null ? null : state.startedAt - clockOffset,
+  };
+}
@@ -0,0 +1,137 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useKeepAwake } from "expo-keep-awake";
+import { ColorTheme } from "../types";
+import { colors } from "../theme/colors";
+import { useRemoteControl } from "../hooks/useRemoteControl";
+import { LandscapeClock } from "../components/LandscapeClock";
+import { PairingForm } from "../components/PairingForm";
+
+interface FollowerScreenProps {
+  theme: ColorTheme;
+  onClose: () => void;
+}
+
+/**
+ * Show another device's clock, for boxes with more than one screen.
+ * Pair with the main clock and this one runs in lockstep with it; taps
+ * work the main clock just as they would on it.
+ */
+export default function FollowerScreen({
+  theme,
+  onClose,
+}: FollowerScreenProps) {
+  const remote = useRemoteControl();
+  const { state, status, send } = remote;
+
+  useKeepAwake();
+
+  // Keep showing the last state while we reconnect
+  if (remote.isSynced && status !== "denied") {
+    return (
+      <View style={styles.container}>
+        <LandscapeClock
+          state={state}
+          theme={theme}
+          onToggle={() => send({ action: "toggle" })}
+          onReset={() => send({ action: "reset" })}
+          onLogRound={() => send({ action: "logRound" })}
+          onLap={() => send({ action: "lap" })}
+          onFinish={() => send({ action: "finish" })}
+          onStartRest={(duration) => send({ action: "startRest", duration })}
+        />
+
+        {status !== "connected" && (
+          <Text style={styles.reconnecting}>Reconnecting…</Text>
+        )}
+
+        <TouchableOpacity style={styles.leaveButton} onPress={onClose}>
+          <Text style={styles.leaveButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Follow a Display</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.card}>
+          <PairingForm status={status} onConnect={remote.connect} />
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  title: {
+    fontFamily: "System",
+    fontSize: 22,
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+  },
+  reconnecting: {
+    position: "absolute",
+    top: 16,
+    left: 16,
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  // Out of the way, and faint, so it doesn't distract from the clock
+  leaveButton: {
+    position: "absolute",
+    top: 12,
+    right: 12,
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+    opacity: 0.4,
+  },
+  leaveButtonText: {
+    fontSize: 16,
+    color: colors.textMuted,
+  },
+});
@@ -0,0 +1,304 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Preset, Session } from "../types";
+import { colors } from "../theme/colors";
+import { AmrapSummary } from "../components/AmrapSummary";
+import { LapList } from "../components/LapList";
+import { DataTransferPanel } from "../components/DataTransferPanel";
+import { getAmrapSplits, formatTime } from "../utils/timeFormat";
+import { describeWorkout } from "../utils/workoutConfig";
+import { groupSessionsByDay, getWeeklyTotals } from "../utils/sessions";
+import { ImportResult } from "../utils/dataTransfer";
+
+interface HistoryScreenProps {
+  sessions: Session[];
+  presets: Preset[]; // exported alongside the history
+  onDelete: (id: string) => void;
+  onImport: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+function formatDay(day: number): string {
+  return new Date(day).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+}
+
+function formatStartTime(time: number): string {
+  return new Date(time).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** Hours and minutes for totals, e.g. "1h 05m" or "42m" */
+function formatTotal(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes.toString().padStart(2, "0")}m`;
+}
+
+/**
+ * Workout history log.
+ * Weekly totals at the top, then every session grouped by day. Tap a
+ * session to see its rounds or laps. Presets and history can be exported
+ * or imported at the bottom.
+ */
+export default function HistoryScreen({
+  sessions,
+  presets,
+  onDelete,
+  onImport,
+  onClose,
+}: HistoryScreenProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const days = groupSessionsByDay(sessions);
+  const weeks = getWeeklyTotals(sessions, Date.now());
+
+  const renderDetail = (session: Session) => (
+    <View style={styles.detail}>
+      {session.amrapRounds.length > 0 && (
+        <AmrapSummary splits={getAmrapSplits(session)} />
+      )}
+      <LapList laps={session.laps} />
+      <TouchableOpacity
+        style={styles.deleteButton}
+        onPress={() => onDelete(session.id)}
+      >
+        <Text style={styles.deleteButtonText}>Delete</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>History</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionLabel}>Weekly Totals</Text>
+        <View style={styles.card}>
+          {weeks.map((week, i) => (
+            <View key={week.weekStart} style={styles.weekRow}>
+              <Text style={styles.weekLabel}>
+                {i === 0 ? "This week" : `w/c ${formatDay(week.weekStart)}`}
+              </Text>
+              <Text style={styles.weekValue}>
+                {week.count} {week.count === 1 ? "workout" : "workouts"}
+              </Text>
+              <Text style={styles.weekValue}>{formatTotal(week.duration)}</Text>
+            </View>
+          ))}
+        </View>
+
+        {days.length === 0 && (
+          <Text style={styles.emptyText}>
+            Finished workouts will appear here
+          </Text>
+        )}
+
+        {days.map(({ day, sessions: daySessions }) => (
+          <View key={day}>
+            <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+              {formatDay(day)}
+            </Text>
+            <View style={styles.card}>
+              {daySessions.map((session, i) => {
+                const isExpanded = session.id === expandedId;
+                const hasDetail =
+                  session.amrapRounds.length > 0 || session.laps.length > 0;
+
+                return (
+                  <View
+                    key={session.id}
+                    style={[styles.sessionRow, i > 0 && styles.rowDivider]}
+                  >
+                    <TouchableOpacity
+                      onPress={() =>
+                        setExpandedId(isExpanded ? null : session.id)
+                      }
+                    >
+                      <View style={styles.sessionHeader}>
+                        <Text style={styles.sessionName} numberOfLines={1}>
+                          {describeWorkout(session.config)}
+                        </Text>
+                        <Text style={styles.sessionDuration}>
+                          {formatTime(session.duration)}
+                        </Text>
+                      </View>
+                      <Text style={styles.sessionMeta}>
+                        {formatStartTime(session.startedAt)}
+                        {session.status === "abandoned" && " · Stopped early"}
+                        {session.amrapRounds.length > 0 &&
+                          ` · ${session.amrapRounds.length} rounds`}
+                        {session.laps.length > 0 &&
+                          ` · ${session.laps.length} laps`}
+                        {hasDetail && (isExpanded ? "  ▴" : "  ▾")}
+                      </Text>
+                    </TouchableOpacity>
+                    {isExpanded && renderDetail(session)}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+
+        <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+          Export & Import
+        </Text>
+        <View style={styles.card}>
+          <DataTransferPanel
+            presets={presets}
+            sessions={sessions}
+            onImport={onImport}
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  title: {
+    fontFamily: "System",
+    fontSize: 22,
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  sectionLabel: {
+    fontFamily: "System",
+    fontSize: 11,
+    fontWeight: "600",
+    color: colors.textMuted,
+    textTransform: "uppercase",
+    letterSpacing: 1.5,
+    marginBottom: 12,
+  },
+  subsectionLabel: {
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  weekRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  weekLabel: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  weekValue: {
+    width: 96,
+    fontFamily: "System",
+    fontSize: 14,
+    color: colors.textPrimary,
+    textAlign: "right",
+  },
+  emptyText: {
+    fontFamily: "System",
+    fontSize: 13,
+    color: colors.textMuted,
+    textAlign: "center",
+    paddingVertical: 32,
+  },
+  sessionRow: {
+    paddingVertical: 12,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: colors.background,
+  },
+  sessionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  sessionName: {
+    flex: 1,
+    fontFamily: "System",
+    fontSize: 15,
+    fontWeight: "500",
+    color: colors.textPrimary,
+  },
+  sessionDuration: {
+    fontFamily: "Digital7Mono",
+    fontSize: 20,
+    color: colors.textPrimary,
+  },
+  sessionMeta: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  detail: {
+    paddingTop: 12,
+    gap: 12,
+  },
+  deleteButton: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.buttonSecondary,
+  },
+  deleteButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.red,
+    textTransform: "uppercase",
+  },
+});
@@ -1,17 +1,48 @@
 import React, { useState, useEffect } from "react";
-import { View, StyleSheet, StatusBar } from "react-native";
+import { View, StyleSheet, StatusBar, Modal, Alert } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useFonts } from "expo-font";
 import * as ScreenOrientation from "expo-screen-orientation";
 import { activateKeepAwakeAsync, deactivateKeepAwake } from "expo-keep-awake";
 import { useTimer } from "../hooks/useTimer";
+import { usePresets } from "../hooks/usePresets";
+import { useHistory } from "../hooks/useHistory";
+import { useSessionRecorder } from "../hooks/useSessionRecorder";
+import { useWorkoutLinks } from "../hooks/useWorkoutLinks";
+import { useRemoteHost } from "../hooks/useRemoteHost";
+import { useTheme } from "../hooks/useTheme";
+import { useProgram } from "../hooks/useProgram";
 import { LandscapeClock } from "../components/LandscapeClock";
 import { PortraitSettings } from "../components/PortraitSettings";
+import HistoryScreen from "./HistoryScreen";
+import RemoteScreen from "./RemoteScreen";
+import FollowerScreen from "./FollowerScreen";
 import { colors } from "../theme/colors";
+import { getWorkoutConfig } from "../utils/workoutConfig";
 
 export default function MainScreen() {
   const [isLandscape, setIsLandscape] = useState(false);
   const timer = useTimer();
+  const presets = usePresets();
+  const history = useHistory();
+  const { theme, setTheme } = useTheme();
+  const { program, setProgram } = useProgram();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isRemoteOpen, setIsRemoteOpen] = useState(false);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isRemoteHostEnabled, setIsRemoteHostEnabled] = useState(false);
+  const remoteHost = useRemoteHost(timer, isRemoteHostEnabled);
+
+  useSessionRecorder(timer.state, history.addSession);
+
+  // Opened from a shared workout link
+  useWorkoutLinks((result) => {
+    if (result.ok) {
+      timer.applyWorkout(result.value);
+    } else {
+      Alert.alert("Couldn't open workout", result.error);
+    }
+  });
 
   const [fontsLoaded] = useFonts({
     Digital7Mono: require("../../assets/fonts/Digital7Mono.ttf"),
@@ -73,22 +104,92 @@ export default function MainScreen() {
       {isLandscape ? (
         <LandscapeClock
           state={timer.state}
+          theme={theme}
           onToggle={timer.toggle}
           onReset={timer.reset}
+          onLogRound={timer.logRound}
+          onLap={timer.lap}
+          onFinish={timer.finish}
+          onStartRest={timer.startRest}
         />
       ) : (
         <PortraitSettings
           state={timer.state}
+          theme={theme}
+          onThemeChange={setTheme}
           onModeChange={timer.setMode}
           onCountdownChange={timer.setCountdown}
           onTabataChange={timer.setTabata}
           onEmomChange={timer.setEmom}
           onAmrapChange={timer.setAmrap}
+          onForTimeChange={timer.setForTime}
+          onIntervalsChange={timer.setIntervals}
+          onRestChange={timer.setRest}
           onCountdownIntroChange={timer.setCountdownIntro}
+          onSoundChange={timer.setSound}
+          onVoiceChange={timer.setVoice}
+          onHapticsChange={timer.setHaptics}
+          onFlashChange={timer.setFlash}
+          presets={presets.presets}
+          onSavePreset={(name) =>
+            presets.addPreset(name, getWorkoutConfig(timer.state))
+          }
+          onLoadPreset={(preset) => timer.applyWorkout(preset.config)}
+          onRenamePreset={presets.renamePreset}
+          onDeletePreset={presets.deletePreset}
+          onOpenHistory={() => setIsHistoryOpen(true)}
+          onApplyWorkout={timer.applyWorkout}
+          program={program}
+          onProgramChange={setProgram}
+          onRunProgram={() => timer.setProgram(program)}
+          onEndProgram={() => timer.setProgram([])}
+          isRemoteHostEnabled={isRemoteHostEnabled}
+          remoteHost={remoteHost}
+          onRemoteHostChange={setIsRemoteHostEnabled}
+          onOpenRemote={() => setIsRemoteOpen(true)}
+          onOpenFollower={() => setIsFollowing(true)}
           onStart={timer.toggle}
           onReset={timer.reset}
+          onLap={timer.lap}
+          onFinish={timer.finish}
+          onStartRest={() => timer.startRest()}
         />
       )}
+
+      <Modal
+        visible={isHistoryOpen && !isLandscape}
+        animationType="slide"
+        onRequestClose={() => setIsHistoryOpen(false)}
+      >
+        <HistoryScreen
+          sessions={history.sessions}
+          presets={presets.presets}
+          onDelete={history.deleteSession}
+          onImport={(result) => {
+            presets.importPresets(result.presets);
+            history.importSessions(result.sessions);
+          }}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      </Modal>
+
+      <Modal
+        visible={isRemoteOpen && !isLandscape}
+        animationType="slide"
+        onRequestClose={() => setIsRemoteOpen(false)}
+      >
+        <RemoteScreen theme={theme} onClose={() => setIsRemoteOpen(false)} />
+      </Modal>
+
+      {/* A follower is usually a wall screen, so it can turn sideways */}
+      <Modal
+        visible={isFollowing}
+        animationType="fade"
+        supportedOrientations={["portrait", "landscape"]}
+        onRequestClose={() => setIsFollowing(false)}
+      >
+        <FollowerScreen theme={theme} onClose={() => setIsFollowing(false)} />
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ColorTheme } from "../types";
+import { colors } from "../theme/colors";
+import { useRemoteControl } from "../hooks/useRemoteControl";
+import { LCDDisplay } from "../components/LCDDisplay";
+import { WorkoutTextInput } from "../components/WorkoutTextInput";
+import { PairingForm } from "../components/PairingForm";
+import { getDisplayContent } from "../components/LandscapeClock";
+import { formatClock } from "../utils/timeFormat";
+import { isWorkoutComplete } from "../utils/timerEvents";
+import { MODE_LABELS, TIMER_MODES } from "../utils/workoutConfig";
+
+interface RemoteScreenProps {
+  theme: ColorTheme;
+  onClose: () => void;
+}
+
+/**
+ * Control a display on the same network: pair with the code it shows, then
+ * start, stop and set up its timer from here while watching a copy of it.
+ */
+export default function RemoteScreen({ theme, onClose }: RemoteScreenProps) {
+  const remote = useRemoteControl();
+  const { state, status, send } = remote;
+  const [clockTime, setClockTime] = useState(formatClock());
+
+  // Keep showing the last state while we reconnect
+  const isMirroring = remote.isSynced && status !== "denied";
+
+  // Update clock time every second when the display is in clock mode
+  useEffect(() => {
+    if (isMirroring && state.mode === "clock") {
+      const interval = setInterval(() => {
+        setClockTime(formatClock());
+      }, 1000);
+      return () => clearInterval(interval);
+    }
+  }, [isMirroring, state.mode]);
+
+  const renderPairing = () => (
+    <>
+      <Text style={styles.sectionLabel}>Pair with a Display</Text>
+      <View style={styles.card}>
+        <PairingForm status={status} onConnect={remote.connect} />
+      </View>
+    </>
+  );
+
+  const renderControls = () => {
+    const display = getDisplayContent(state, clockTime, theme);
+    const canLogRound =
+      (state.mode === "amrap" || state.mode === "fortime") &&
+      state.isRunning &&
+      !state.isInCountdownIntro &&
+      !isWorkoutComplete(state);
+    const canLap = state.mode === "stopwatch" && state.isRunning;
+    const canFinish =
+      state.mode === "fortime" && state.isRunning && !state.isInCountdownIntro;
+    const canRest = state.mode === "rest";
+
+    return (
+      <>
+        {status !== "connected" && (
+          <Text style={styles.statusText}>Reconnecting…</Text>
+        )}
+        <View style={styles.preview}>
+          <Text style={styles.subText}>
+            {display.sub
+              ? `${display.sub.phase}  ${display.sub.round || ""}`.trim()
+              : " "}
+          </Text>
+          <LCDDisplay value={display.main} color={display.color} />
+        </View>
+
+        {state.mode !== "clock" && (
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.mainButton, state.isRunning && styles.stopButton]}
+              onPress={() => send({ action: "toggle" })}
+            >
+              <Text style={styles.mainButtonText}>
+                {state.isRunning ? "Stop" : "Start"}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => send({ action: "reset" })}
+            >
+              <Text style={styles.actionButtonText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {canRest && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.tapButton]}
+            onPress={() => send({ action: "startRest" })}
+          >
+            <Text style={styles.actionButtonText}>Set Done - Rest</Text>
+          </TouchableOpacity>
+        )}
+
+        {canLogRound && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.tapButton]}
+            onPress={() => send({ action: "logRound" })}
+          >
+            <Text style={styles.actionButtonText}>+1 Round</Text>
+          </TouchableOpacity>
+        )}
+
+        {(canLap || canFinish) && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.tapButton]}
+            onPress={() => send({ action: canLap ? "lap" : "finish" })}
+          >
+            <Text style={styles.actionButtonText}>
+              {canLap ? "Lap" : "Done"}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={[styles.sectionLabel, styles.subsectionLabel]}>Mode</Text>
+        <View style={styles.segmentedControl}>
+          {TIMER_MODES.map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.segment,
+                state.mode === mode && styles.segmentActive,
+              ]}
+              onPress={() => send({ action: "setMode", mode })}
+            >
+              <Text
+                style={[
+                  styles.segmentText,
+                  state.mode === mode && styles.segmentTextActive,
+                ]}
+              >
+                {MODE_LABELS[mode]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={[styles.sectionLabel, styles.subsectionLabel]}>
+          Workout
+        </Text>
+        <WorkoutTextInput
+          onApply={(config) => send({ action: "setWorkout", config })}
+        />
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.disconnectButton]}
+          onPress={remote.disconnect}
+        >
+          <Text style={styles.actionButtonText}>Disconnect</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Remote</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {isMirroring ? renderControls() : renderPairing()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  title: {
+    fontFamily: "System",
+    fontSize: 22,
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    backgroundColor: colors.buttonSecondary,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    fontWeight: "500",
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  sectionLabel: {
+    fontFamily: "System",
+    fontSize: 11,
+    fontWeight: "600",
+    color: colors.textMuted,
+    textTransform: "uppercase",
+    letterSpacing: 1.5,
+    marginBottom: 12,
+  },
+  subsectionLabel: {
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+  },
+  statusText: {
+    fontFamily: "System",
+    fontSize: 12,
+    color: colors.textSecondary,
+    textAlign: "center",
+  },
+  preview: {
+    alignItems: "center",
+    paddingVertical: 24,
+    gap: 8,
+  },
+  subText: {
+    fontFamily: "Technology",
+    fontSize: 22,
+    color: colors.textSecondary,
+    letterSpacing: 2,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  mainButton: {
+    flex: 2,
+    alignItems: "center",
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: colors.green,
+  },
+  stopButton: {
+    backgroundColor: colors.red,
+  },
+  mainButtonText: {
+    fontFamily: "System",
+    fontSize: 17,
+    fontWeight: "600",
+    color: colors.white,
+    textTransform: "uppercase",
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+    borderRadius: 12,
+    backgroundColor: colors.buttonSecondary,
+  },
+  actionButtonText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.textPrimary,
+    textTransform: "uppercase",
+  },
+  tapButton: {
+    flex: 0,
+    marginTop: 12,
+    paddingVertical: 16,
+  },
+  disconnectButton: {
+    flex: 0,
+    marginTop: 32,
+  },
+  segmentedControl: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 4,
+  },
+  segment: {
+    paddingVertical: 10,
+    borderRadius: 8,
+    width: "32%",
+    flexGrow: 1,
+    alignItems: "center",
+    margin: 2,
+  },
+  segmentActive: {
+    backgroundColor: colors.buttonSecondary,
+  },
+  segmentText: {
+    fontFamily: "System",
+    fontSize: 13,
+    fontWeight: "500",
+    color: colors.textMuted,
+  },
+  segmentTextActive: {
+    color: colors.textPrimary,
+  },
+});
@@ -0,0 +1,52 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { loadHistory } from "../historyStorage";
+
+describe("loadHistory", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("brings old sessions up to date and drops ones that can't be run", async () => {
+    const session = {
+      id: "s1",
+      startedAt: 1000,
+      duration: 240000,
+      status: "completed",
+      amrapRounds: [],
+      laps: [],
+    };
+    await AsyncStorage.setItem(
+      "gym-clock/history",
+      JSON.stringify({
+        version: 1,
+        data: [
+          {
+            ...session,
+            config: {
+              mode: "tabata",
+              settings: { workTime: 20, restTime: 10, rounds: 8 },
+            },
+          },
+          {
+            ...session,
+            id: "s2",
+            config: { mode: "emom", settings: { intervalTime: null } },
+          },
+        ],
+      })
+    );
+
+    const history = await loadHistory();
+    expect(history.map((s) => s.id)).toEqual(["s1"]);
+    expect(history[0].config).toEqual({
+      mode: "tabata",
+      settings: {
+        workTime: 20,
+        restTime: 10,
+        rounds: 8,
+        sets: 1,
+        setRest: 60,
+        coolDown: 0,
+        skipLastRest: false,
+      },
+    });
+  });
+});
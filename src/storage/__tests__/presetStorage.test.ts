@@ -0,0 +1,27 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { loadPresets, SCHEMA_VERSION } from "../presetStorage";
+
+describe("loadPresets", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("drops presets whose workout can't be run", async () => {
+    const good = {
+      id: "p1",
+      name: "Fran",
+      config: { mode: "fortime", settings: { timeCap: 600 } },
+      createdAt: 1000,
+    };
+    const bad = {
+      id: "p2",
+      name: "Broken",
+      config: { mode: "tabata", settings: { workTime: "x" } },
+      createdAt: 2000,
+    };
+    await AsyncStorage.setItem(
+      "gym-clock/presets",
+      JSON.stringify({ version: SCHEMA_VERSION, data: [good, bad] })
+    );
+
+    expect(await loadPresets()).toEqual([good]);
+  });
+});
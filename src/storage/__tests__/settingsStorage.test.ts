@@ -0,0 +1,63 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { loadSettings, SCHEMA_VERSION } from "../settingsStorage";
+
+function store(version: number, data: unknown) {
+  return AsyncStorage.setItem(
+    "gym-clock/settings",
+    JSON.stringify({ version, data })
+  );
+}
+
+describe("loadSettings", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("returns null when nothing is saved", async () => {
+    expect(await loadSettings()).toBeNull();
+  });
+
+  it("drops a mode's settings that don't validate, keeping the rest", async () => {
+    await store(SCHEMA_VERSION, {
+      mode: "emom",
+      emom: { intervalTime: 45, rounds: 12 },
+      amrap: { totalTime: "ten minutes" },
+      countdown: { totalTime: NaN },
+      intervals: { segments: [], repeat: 0 },
+    });
+
+    const settings = await loadSettings();
+    expect(settings).toEqual({
+      mode: "emom",
+      emom: { intervalTime: 45, rounds: 12 },
+    });
+  });
+
+  it("keeps only the cue settings fields that look right", async () => {
+    await store(SCHEMA_VERSION, {
+      sound: { volume: "loud", muted: true },
+      voice: { enabled: 1, remainingEvery: 2, cues: { start: false, go: 1 } },
+      flash: { phaseTint: false, modes: { tabata: "yes", emom: false } },
+    });
+
+    const settings = await loadSettings();
+    expect(settings).toEqual({
+      sound: { muted: true },
+      voice: { remainingEvery: 2, cues: { start: false } },
+      flash: { phaseTint: false, modes: { emom: false } },
+    });
+  });
+
+  it("brings Tabata settings from before sets up to date", async () => {
+    await store(1, { tabata: { workTime: 30, restTime: 15, rounds: 6 } });
+
+    const settings = await loadSettings();
+    expect(settings?.tabata).toEqual({
+      workTime: 30,
+      restTime: 15,
+      rounds: 6,
+      sets: 1,
+      setRest: 60,
+      coolDown: 0,
+      skipLastRest: false,
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * File Transfer
+ * =============
+ * Moves export files in and out of the app: exports are written to the
+ * cache directory and handed to the share sheet (save to Files, AirDrop,
+ * email...), imports are read from a file the user picks.
+ */
+
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import * as DocumentPicker from "expo-document-picker";
+
+/** Write `contents` to a file and open the share sheet for it */
+export async function shareFile(
+  name: string,
+  contents: string,
+  mimeType: string
+): Promise<void> {
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: name });
+}
+
+/** Let the user pick a JSON or CSV file. Resolves to null if they cancel. */
+export async function pickTextFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "text/csv", "text/comma-separated-values"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  return new File(result.assets[0].uri).text();
+}
@@ -0,0 +1,55 @@
+/**
+ * History Storage
+ * ===============
+ * Saves the workout history log (one Session per run) to device storage.
+ *
+ * Stored with a schema version (@see versionedStorage). When the shape of
+ * Session changes, bump SCHEMA_VERSION and add a migration.
+ */
+
+import { Session } from "../types";
+import { Migrations, readVersioned, writeVersioned } from "./versionedStorage";
+import { isObject } from "../utils/isObject";
+import {
+  migrateTabataConfig,
+  validateSession,
+} from "../utils/workoutValidation";
+
+const STORAGE_KEY = "gym-clock/history";
+
+export const SCHEMA_VERSION = 2;
+
+/** Migrations from version N to N + 1, keyed by N */
+const migrations: Migrations = {
+  // Tabata sets, set rest, cool-down and skipping the last rest
+  1: (data) =>
+    Array.isArray(data)
+      ? data.map((session) =>
+          isObject(session)
+            ? { ...session, config: migrateTabataConfig(session.config) }
+            : session
+        )
+      : data,
+};
+
+/** Keep the sessions that pass the same checks as an imported one */
+function sanitizeHistory(data: unknown): Session[] {
+  if (!Array.isArray(data)) return [];
+
+  const sessions: Session[] = [];
+  for (const item of data) {
+    const session = validateSession(item);
+    if (session.ok) sessions.push(session.value);
+  }
+  return sessions;
+}
+
+/** Load the history log (empty if there is none or it's unusable) */
+export async function loadHistory(): Promise<Session[]> {
+  const data = await readVersioned(STORAGE_KEY, SCHEMA_VERSION, migrations);
+  return sanitizeHistory(data);
+}
+
+export function saveHistory(sessions: Session[]): Promise<boolean> {
+  return writeVersioned(STORAGE_KEY, SCHEMA_VERSION, sessions);
+}
@@ -0,0 +1,55 @@
+/**
+ * Preset Storage
+ * ==============
+ * Saves the user's named workout presets to device storage.
+ *
+ * Stored with a schema version (@see versionedStorage). When the shape of
+ * Preset changes, bump SCHEMA_VERSION and add a migration.
+ */
+
+import { Preset } from "../types";
+import { Migrations, readVersioned, writeVersioned } from "./versionedStorage";
+import { isObject } from "../utils/isObject";
+import {
+  migrateTabataConfig,
+  validatePreset,
+} from "../utils/workoutValidation";
+
+const STORAGE_KEY = "gym-clock/presets";
+
+export const SCHEMA_VERSION = 2;
+
+/** Migrations from version N to N + 1, keyed by N */
+const migrations: Migrations = {
+  // Tabata sets, set rest, cool-down and skipping the last rest
+  1: (data) =>
+    Array.isArray(data)
+      ? data.map((preset) =>
+          isObject(preset)
+            ? { ...preset, config: migrateTabataConfig(preset.config) }
+            : preset
+        )
+      : data,
+};
+
+/** Keep the presets that pass the same checks as an imported one */
+function sanitizePresets(data: unknown): Preset[] {
+  if (!Array.isArray(data)) return [];
+
+  const presets: Preset[] = [];
+  for (const item of data) {
+    const preset = validatePreset(item);
+    if (preset.ok) presets.push(preset.value);
+  }
+  return presets;
+}
+
+/** Load saved presets (empty if there are none or they're unusable) */
+export async function loadPresets(): Promise<Preset[]> {
+  const data = await readVersioned(STORAGE_KEY, SCHEMA_VERSION, migrations);
+  return sanitizePresets(data);
+}
+
+export function savePresets(presets: Preset[]): Promise<boolean> {
+  return writeVersioned(STORAGE_KEY, SCHEMA_VERSION, presets);
+}
@@ -0,0 +1,57 @@
+/**
+ * Program Storage
+ * ===============
+ * Saves the workout program the user is putting together to device storage.
+ *
+ * Stored with a schema version (@see versionedStorage). When the shape of
+ * ProgramBlock changes, bump SCHEMA_VERSION and add a migration.
+ */
+
+import { ProgramBlock } from "../types";
+import { Migrations, readVersioned, writeVersioned } from "./versionedStorage";
+import { validateWorkoutConfig } from "../utils/workoutValidation";
+
+const STORAGE_KEY = "gym-clock/program";
+
+export const SCHEMA_VERSION = 1;
+
+/** Migrations from version N to N + 1, keyed by N */
+const migrations: Migrations = {};
+
+function toSeconds(value: unknown): number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : 0;
+}
+
+/** Keep the blocks with a workout the timer can run */
+function sanitizeProgram(data: unknown): ProgramBlock[] {
+  if (!Array.isArray(data)) return [];
+
+  const blocks: ProgramBlock[] = [];
+  for (const item of data) {
+    if (typeof item !== "object" || item === null) continue;
+
+    const raw = item as Record<string, unknown>;
+    const config = validateWorkoutConfig(raw.config);
+    if (typeof raw.id !== "string" || !config.ok) continue;
+
+    blocks.push({
+      id: raw.id,
+      config: config.value,
+      intro: toSeconds(raw.intro),
+      restAfter: toSeconds(raw.restAfter),
+    });
+  }
+  return blocks;
+}
+
+/** Load the saved program (empty if there isn't one) */
+export async function loadProgram(): Promise<ProgramBlock[]> {
+  const data = await readVersioned(STORAGE_KEY, SCHEMA_VERSION, migrations);
+  return sanitizeProgram(data);
+}
+
+export function saveProgram(blocks: ProgramBlock[]): Promise<boolean> {
+  return writeVersioned(STORAGE_KEY, SCHEMA_VERSION, blocks);
+}
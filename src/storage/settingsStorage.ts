@@ -0,0 +1,203 @@
+/**
+ * Settings Storage
+ * ================
+ * Saves the user's timer setup (mode, per-mode settings, intro, cues) to
+ * device storage so it survives the app being killed.
+ *
+ * Stored with a schema version (@see versionedStorage). When the shape of
+ * PersistedSettings changes, bump SCHEMA_VERSION and add a migration.
+ */
+
+import {
+  FlashSettings,
+  SoundSettings,
+  TimerMode,
+  TimerState,
+  VoiceCue,
+  VoiceSettings,
+} from "../types";
+import { Migrations, readVersioned, writeVersioned } from "./versionedStorage";
+import { TIMER_MODES } from "../utils/workoutConfig";
+import { withTabataSetDefaults } from "../utils/tabata";
+import { Fields, isObject } from "../utils/isObject";
+import { validateWorkoutConfig } from "../utils/workoutValidation";
+
+const STORAGE_KEY = "gym-clock/settings";
+
+export const SCHEMA_VERSION = 2;
+
+/** The parts of TimerState that describe the user's setup (not a run) */
+export type PersistedSettings = Pick<
+  TimerState,
+  | "mode"
+  | "countdown"
+  | "tabata"
+  | "emom"
+  | "amrap"
+  | "fortime"
+  | "intervals"
+  | "rest"
+  | "countdownIntro"
+  | "sound"
+  | "voice"
+  | "haptics"
+  | "flash"
+>;
+
+/**
+ * Settings as loaded. Cue settings keep whichever of their fields were
+ * saved and look right, so each missing one falls back to its default.
+ */
+export type LoadedSettings = Partial<
+  Omit<PersistedSettings, "sound" | "voice" | "flash">
+> & {
+  sound?: Partial<SoundSettings>;
+  voice?: Partial<Omit<VoiceSettings, "cues">> & {
+    cues?: Partial<VoiceSettings["cues"]>;
+  };
+  flash?: Partial<Omit<FlashSettings, "modes">> & {
+    modes?: Partial<FlashSettings["modes"]>;
+  };
+};
+
+/** Migrations from version N to N + 1, keyed by N */
+const migrations: Migrations = {
+  // Tabata sets, set rest, cool-down and skipping the last rest
+  1: (data) => {
+    if (!isObject(data) || !isObject(data.tabata)) return data;
+    return { ...data, tabata: withTabataSetDefaults(data.tabata) };
+  },
+};
+
+/** Modes with settings of their own, stored under the mode's name */
+const SETTINGS_MODES = [
+  "countdown",
+  "tabata",
+  "emom",
+  "amrap",
+  "fortime",
+  "intervals",
+  "rest",
+] as const;
+
+const VOICE_CUES: VoiceCue[] = [
+  "start",
+  "rounds",
+  "halfway",
+  "remaining",
+  "finish",
+];
+
+/** The fields of `value` listed in `keys` that are true or false */
+function pickBooleans<K extends string>(
+  value: unknown,
+  keys: readonly K[]
+): Partial<Record<K, boolean>> {
+  const picked: Partial<Record<K, boolean>> = {};
+  if (!isObject(value)) return picked;
+  for (const key of keys) {
+    const field = value[key];
+    if (typeof field === "boolean") picked[key] = field;
+  }
+  return picked;
+}
+
+function sanitizeSound(value: Fields): Partial<SoundSettings> {
+  const sound: Partial<SoundSettings> = pickBooleans(value, [
+    "muted",
+    "finalCountdown",
+  ]);
+  const { volume } = value;
+  if (typeof volume === "number" && volume >= 0 && volume <= 100) {
+    sound.volume = volume;
+  }
+  return sound;
+}
+
+function sanitizeVoice(value: Fields): NonNullable<LoadedSettings["voice"]> {
+  const voice: NonNullable<LoadedSettings["voice"]> = {
+    ...pickBooleans(value, ["enabled"]),
+    cues: pickBooleans(value.cues, VOICE_CUES),
+  };
+  const { remainingEvery } = value;
+  if (
+    typeof remainingEvery === "number" &&
+    Number.isInteger(remainingEvery) &&
+    remainingEvery >= 1
+  ) {
+    voice.remainingEvery = remainingEvery;
+  }
+  return voice;
+}
+
+function sanitizeFlash(value: Fields): NonNullable<LoadedSettings["flash"]> {
+  return {
+    ...pickBooleans(value, ["phaseTint", "reducedMotion"]),
+    modes: pickBooleans(value.modes, SETTINGS_MODES),
+  };
+}
+
+/** Pick the TimerState fields out of the current state */
+export function toPersistedSettings(state: TimerState): PersistedSettings {
+  return {
+    mode: state.mode,
+    countdown: state.countdown,
+    tabata: state.tabata,
+    emom: state.emom,
+    amrap: state.amrap,
+    fortime: state.fortime,
+    intervals: state.intervals,
+    rest: state.rest,
+    countdownIntro: state.countdownIntro,
+    sound: state.sound,
+    voice: state.voice,
+    haptics: state.haptics,
+    flash: state.flash,
+  };
+}
+
+/**
+ * Keep only the fields that look right. Anything missing or malformed is
+ * left out, so the defaults for it stay in place.
+ */
+function sanitizeSettings(data: unknown): LoadedSettings {
+  if (typeof data !== "object" || data === null) {
+    return {};
+  }
+
+  const raw = data as Record<string, unknown>;
+  const settings: LoadedSettings = {};
+
+  if (TIMER_MODES.includes(raw.mode as TimerMode)) {
+    settings.mode = raw.mode as TimerMode;
+  }
+  if (typeof raw.countdownIntro === "number" && raw.countdownIntro >= 0) {
+    settings.countdownIntro = raw.countdownIntro;
+  }
+  if (typeof raw.haptics === "boolean") {
+    settings.haptics = raw.haptics;
+  }
+  // Each mode's settings are checked the same way as an imported workout,
+  // so a bad block only loses that mode's settings, not everything
+  for (const mode of SETTINGS_MODES) {
+    const config = validateWorkoutConfig({ mode, settings: raw[mode] });
+    if (config.ok && "settings" in config.value) {
+      (settings as Record<string, unknown>)[mode] = config.value.settings;
+    }
+  }
+  if (isObject(raw.sound)) settings.sound = sanitizeSound(raw.sound);
+  if (isObject(raw.voice)) settings.voice = sanitizeVoice(raw.voice);
+  if (isObject(raw.flash)) settings.flash = sanitizeFlash(raw.flash);
+
+  return settings;
+}
+
+/** Load saved settings, or null if there are none (or they're unusable) */
+export async function loadSettings(): Promise<LoadedSettings | null> {
+  const data = await readVersioned(STORAGE_KEY, SCHEMA_VERSION, migrations);
+  return data === null ? null : sanitizeSettings(data);
+}
+
+export function saveSettings(settings: PersistedSettings): Promise<boolean> {
+  return writeVersioned(STORAGE_KEY, SCHEMA_VERSION, settings);
+}
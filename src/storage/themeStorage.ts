@@ -0,0 +1,61 @@
+/**
+ * Theme Storage
+ * =============
+ * Saves the user's color theme to device storage.
+ *
+ * Stored with a schema version (@see versionedStorage). When the shape of
+ * ColorTheme changes, bump SCHEMA_VERSION and add a migration.
+ */
+
+import { ColorTheme, DisplayColor } from "../types";
+import { Migrations, readVersioned, writeVersioned } from "./versionedStorage";
+import { CLASSIC_THEME, DISPLAY_COLORS, THEME_SLOTS } from "../theme/themes";
+import { isObject } from "../utils/isObject";
+
+const STORAGE_KEY = "gym-clock/theme";
+
+export const SCHEMA_VERSION = 1;
+
+/** Migrations from version N to N + 1, keyed by N */
+const migrations: Migrations = {};
+
+/**
+ * Keep the colors that look right, and the classic theme's for any that
+ * are missing or malformed.
+ */
+function sanitizeTheme(data: unknown): ColorTheme {
+  if (!isObject(data)) {
+    return CLASSIC_THEME;
+  }
+
+  const theme: ColorTheme = {
+    colors: { ...CLASSIC_THEME.colors },
+    useSegmentColors:
+      typeof data.useSegmentColors === "boolean"
+        ? data.useSegmentColors
+        : CLASSIC_THEME.useSegmentColors,
+    showProgress:
+      typeof data.showProgress === "boolean"
+        ? data.showProgress
+        : CLASSIC_THEME.showProgress,
+  };
+
+  for (const { slot } of THEME_SLOTS) {
+    const color = isObject(data.colors) ? data.colors[slot] : undefined;
+    if (DISPLAY_COLORS.includes(color as DisplayColor)) {
+      theme.colors[slot] = color as DisplayColor;
+    }
+  }
+
+  return theme;
+}
+
+/** Load the saved theme, or null if there isn't one */
+export async function loadTheme(): Promise<ColorTheme | null> {
+  const data = await readVersioned(STORAGE_KEY, SCHEMA_VERSION, migrations);
+  return data === null ? null : sanitizeTheme(data);
+}
+
+export function saveTheme(theme: ColorTheme): Promise<boolean> {
+  return writeVersioned(STORAGE_KEY, SCHEMA_VERSION, theme);
+}
@@ -0,0 +1,89 @@
+/**
+ * Versioned Storage
+ * =================
+ * Reads and writes JSON to device storage wrapped in an envelope:
+ * `{ version, data }`.
+ *
+ * ## Schema Versioning
+ * When the shape of something stored changes:
+ * 1. Bump its schema version
+ * 2. Add a migration keyed by the OLD version that returns data in the new shape
+ *
+ * On read, migrations run in order from the stored version up to the current
+ * one. Anything unreadable (bad JSON, a version newer than this build knows,
+ * a missing or failing migration) reads as null, so callers fall back to
+ * their defaults rather than crashing. A failed write resolves to false and
+ * the data is simply written again on the next save.
+ *
+ * Stored data is untrusted, so migrations take `unknown` and check the
+ * shape of whatever they change.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/** Migrations from version N to N + 1, keyed by N */
+export type Migrations = Record<number, (data: unknown) => unknown>;
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+/**
+ * Run migrations from `fromVersion` up to `toVersion`.
+ * Returns null if the data can't be brought up to date.
+ */
+export function migrate(
+  data: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Migrations
+): unknown | null {
+  if (fromVersion > toVersion) {
+    return null;
+  }
+
+  let migrated = data;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const step = migrations[version];
+    if (!step) {
+      return null;
+    }
+    migrated = step(migrated);
+  }
+  return migrated;
+}
+
+/** Read and migrate the data stored under `key`, or null if there's none */
+export async function readVersioned(
+  key: string,
+  version: number,
+  migrations: Migrations
+): Promise<unknown | null> {
+  try {
+    const json = await AsyncStorage.getItem(key);
+    if (!json) return null;
+
+    const envelope = JSON.parse(json) as StoredEnvelope;
+    if (typeof envelope?.version !== "number") return null;
+
+    return migrate(envelope.data, envelope.version, version, migrations);
+  } catch {
+    return null;
+  }
+}
+
+/** Store `data` under `key`, resolving to whether it was saved */
+export async function writeVersioned(
+  key: string,
+  version: number,
+  data: unknown
+): Promise<boolean> {
+  const envelope: StoredEnvelope = { version, data };
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(envelope));
+    return true;
+  } catch {
+    return false;
+  }
+}
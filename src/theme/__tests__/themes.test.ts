@@ -0,0 +1,89 @@
+import {
+  CLASSIC_THEME,
+  HIGH_CONTRAST_THEME,
+  getDisplayColor,
+  getThemeSlot,
+} from "../themes";
+import { timerReducer, initialState } from "../../hooks/useTimer";
+import { TimerState } from "../../types";
+
+/** A running timer `ms` into the workout, intro off */
+function runFor(overrides: Partial<TimerState>, ms: number): TimerState {
+  const state = timerReducer(
+    { ...initialState, countdownIntro: 0, ...overrides },
+    { type: "START", now: 0 }
+  );
+  return timerReducer(state, { type: "TICK", now: ms });
+}
+
+describe("getThemeSlot", () => {
+  it("follows the tabata phase", () => {
+    expect(getThemeSlot(runFor({ mode: "tabata" }, 5000))).toBe("tabataWork");
+    expect(getThemeSlot(runFor({ mode: "tabata" }, 25000))).toBe("tabataRest");
+  });
+
+  it("shows the intro over any mode", () => {
+    const state = runFor({ mode: "emom", countdownIntro: 10 }, 2000);
+    expect(getThemeSlot(state)).toBe("intro");
+  });
+
+  it("uses the current interval segment's kind", () => {
+    // Default intervals: Row 3:00 (work), then Rest 1:00
+    expect(getThemeSlot(runFor({ mode: "intervals" }, 1000))).toBe(
+      "intervalsWork"
+    );
+    expect(getThemeSlot(runFor({ mode: "intervals" }, 190000))).toBe(
+      "intervalsRest"
+    );
+  });
+
+  it("marks a finished For Time", () => {
+    const state = { ...runFor({ mode: "fortime" }, 60000), finishTime: 60000 };
+    expect(getThemeSlot(state)).toBe("forTimeDone");
+  });
+});
+
+describe("getDisplayColor", () => {
+  it("keeps the classic colors by default", () => {
+    expect(
+      getDisplayColor(runFor({ mode: "tabata" }, 5000), CLASSIC_THEME)
+    ).toBe("green");
+    expect(getDisplayColor(runFor({ mode: "emom" }, 5000), CLASSIC_THEME)).toBe(
+      "blue"
+    );
+  });
+
+  it("doesn't rely on red vs green in high contrast", () => {
+    const work = runFor({ mode: "tabata" }, 5000);
+    const rest = runFor({ mode: "tabata" }, 25000);
+    const colors = [work, rest].map((s) =>
+      getDisplayColor(s, HIGH_CONTRAST_THEME)
+    );
+    expect(colors).toEqual(["white", "orange"]);
+  });
+
+  it("uses segment colors only when the theme says so", () => {
+    const state = runFor(
+      {
+        mode: "intervals",
+        intervals: {
+          repeat: 1,
+          segments: [
+            {
+              id: "a",
+              label: "Bike",
+              duration: 60,
+              color: "blue",
+              kind: "work",
+            },
+          ],
+        },
+      },
+      1000
+    );
+    expect(getDisplayColor(state, CLASSIC_THEME)).toBe("blue");
+    expect(
+      getDisplayColor(state, { ...CLASSIC_THEME, useSegmentColors: false })
+    ).toBe("green");
+  });
+});
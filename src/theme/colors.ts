@@ -1,3 +1,5 @@
+import { DisplayColor } from "../types";
+
 export const colors = {
   // Background colors
   background: "#000000",
@@ -27,6 +29,19 @@ export const colors = {
 
   white: "#ffffff",
   whiteGlow: "rgba(255, 255, 255, 0.6)",
+  whiteDim: "#333333",
+
+  amber: "#ffb000",
+  amberGlow: "rgba(255, 176, 0, 0.6)",
+  amberDim: "#332300",
+
+  orange: "#ff6a00",
+  orangeGlow: "rgba(255, 106, 0, 0.6)",
+  orangeDim: "#331500",
+
+  purple: "#b44dff",
+  purpleGlow: "rgba(180, 77, 255, 0.6)",
+  purpleDim: "#240f33",
 
   // UI colors
   textPrimary: "#ffffff",
@@ -60,4 +75,75 @@ export const shadows = {
     textShadowOffset: { width: 0, height: 0 },
     textShadowRadius: 20,
   },
+  whiteGlow: {
+    textShadowColor: colors.whiteGlow,
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 20,
+  },
+  amberGlow: {
+    textShadowColor: colors.amberGlow,
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 20,
+  },
+  orangeGlow: {
+    textShadowColor: colors.orangeGlow,
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 20,
+  },
+  purpleGlow: {
+    textShadowColor: colors.purpleGlow,
+    textShadowOffset: { width: 0, height: 0 },
+    textShadowRadius: 20,
+  },
+};
+
+/** Every digit color with its glow, for the LCD text and the lines above it */
+export const displayColors: Record<
+  DisplayColor,
+  {
+    active: string;
+    dim: string; // for backgrounds
+    glow: (typeof shadows)[keyof typeof shadows];
+  }
+> = {
+  red: {
+    active: colors.red,
+    dim: colors.redDim,
+    glow: shadows.redGlow,
+  },
+  blue: {
+    active: colors.blue,
+    dim: colors.blueDim,
+    glow: shadows.blueGlow,
+  },
+  green: {
+    active: colors.green,
+    dim: colors.greenDim,
+    glow: shadows.greenGlow,
+  },
+  yellow: {
+    active: colors.yellow,
+    dim: colors.yellowDim,
+    glow: shadows.yellowGlow,
+  },
+  white: {
+    active: colors.white,
+    dim: colors.whiteDim,
+    glow: shadows.whiteGlow,
+  },
+  amber: {
+    active: colors.amber,
+    dim: colors.amberDim,
+    glow: shadows.amberGlow,
+  },
+  orange: {
+    active: colors.orange,
+    dim: colors.orangeDim,
+    glow: shadows.orangeGlow,
+  },
+  purple: {
+    active: colors.purple,
+    dim: colors.purpleDim,
+    glow: shadows.purpleGlow,
+  },
 };
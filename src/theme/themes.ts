@@ -0,0 +1,127 @@
+/**
+ * Color Themes
+ * ============
+ * Which color the digits are in each mode and phase. Users can pick from
+ * the presets below or set each one themselves (@see ThemeSettings).
+ *
+ * The classic theme tells Tabata work from rest by green vs red alone, which
+ * is exactly the pair most colorblind athletes can't separate. High contrast
+ * uses white vs orange instead: a big difference in brightness as well as
+ * hue, so it reads for everyone.
+ */
+
+import { ColorTheme, DisplayColor, ThemeSlot, TimerState } from "../types";
+import { formatForTime, formatIntervals } from "../utils/timeFormat";
+
+/** Every digit color, in the order a color picker cycles through them */
+export const DISPLAY_COLORS: DisplayColor[] = [
+  "red",
+  "orange",
+  "amber",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+  "white",
+];
+
+/** Every ThemeSlot, in the order settings list them */
+export const THEME_SLOTS: { slot: ThemeSlot; label: string }[] = [
+  { slot: "intro", label: "Get Ready" },
+  { slot: "clock", label: "Clock" },
+  { slot: "stopwatch", label: "Stopwatch" },
+  { slot: "countdown", label: "Timer" },
+  { slot: "tabataWork", label: "Tabata Work" },
+  { slot: "tabataRest", label: "Tabata Rest" },
+  { slot: "emom", label: "EMOM" },
+  { slot: "amrap", label: "AMRAP" },
+  { slot: "forTime", label: "For Time" },
+  { slot: "forTimeDone", label: "For Time Done" },
+  { slot: "intervalsWork", label: "Intervals Work" },
+  { slot: "intervalsRest", label: "Intervals Rest" },
+  { slot: "rest", label: "Resting" },
+  { slot: "restReady", label: "Rest Over" },
+];
+
+export const CLASSIC_THEME: ColorTheme = {
+  colors: {
+    intro: "yellow",
+    clock: "blue",
+    stopwatch: "red",
+    countdown: "red",
+    tabataWork: "green",
+    tabataRest: "red",
+    emom: "blue",
+    amrap: "yellow",
+    forTime: "red",
+    forTimeDone: "green",
+    intervalsWork: "green",
+    intervalsRest: "red",
+    rest: "red",
+    restReady: "green",
+  },
+  useSegmentColors: true,
+  showProgress: true,
+};
+
+export const HIGH_CONTRAST_THEME: ColorTheme = {
+  colors: {
+    intro: "blue",
+    clock: "white",
+    stopwatch: "white",
+    countdown: "white",
+    tabataWork: "white",
+    tabataRest: "orange",
+    emom: "white",
+    amrap: "white",
+    forTime: "white",
+    forTimeDone: "blue",
+    intervalsWork: "white",
+    intervalsRest: "orange",
+    rest: "orange",
+    restReady: "white",
+  },
+  useSegmentColors: false,
+  showProgress: true,
+};
+
+export const THEME_PRESETS: { name: string; theme: ColorTheme }[] = [
+  { name: "Classic", theme: CLASSIC_THEME },
+  { name: "High Contrast", theme: HIGH_CONTRAST_THEME },
+];
+
+/** The mode and phase the timer is showing right now */
+export function getThemeSlot(state: TimerState): ThemeSlot {
+  if (state.isInCountdownIntro) return "intro";
+  if (state.isProgramRest) return "rest";
+
+  switch (state.mode) {
+    case "tabata":
+      return state.isWorkPhase ? "tabataWork" : "tabataRest";
+    case "fortime":
+      return formatForTime(state).status === "DONE" ? "forTimeDone" : "forTime";
+    case "intervals":
+      return formatIntervals(state).kind === "rest"
+        ? "intervalsRest"
+        : "intervalsWork";
+    case "rest":
+      return state.restEndsAt === null ? "restReady" : "rest";
+    default:
+      return state.mode;
+  }
+}
+
+/** The digit color for the timer right now */
+export function getDisplayColor(
+  state: TimerState,
+  theme: ColorTheme
+): DisplayColor {
+  if (
+    state.mode === "intervals" &&
+    !state.isInCountdownIntro &&
+    theme.useSegmentColors
+  ) {
+    return formatIntervals(state).color;
+  }
+  return theme.colors[getThemeSlot(state)];
+}
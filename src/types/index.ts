@@ -4,42 +4,238 @@ export type TimerMode =
   | "countdown"
   | "tabata"
   | "emom"
-  | "amrap";
+  | "amrap"
+  | "fortime"
+  | "intervals"
+  | "rest";
 
 export interface TabataSettings {
   workTime: number; // seconds
   restTime: number; // seconds
-  rounds: number;
+  rounds: number; // per set
+  sets: number;
+  setRest: number; // seconds between sets, in place of the last round's rest
+  coolDown: number; // seconds at the end (0 = none)
+  skipLastRest: boolean; // finish on the last work phase
 }
 
+export type TabataPhase = "work" | "rest" | "setRest" | "coolDown";
+
 export interface EmomSettings {
-  intervalTime: number; // seconds per minute (usually 60)
-  totalMinutes: number;
+  intervalTime: number; // seconds per interval (60 = classic EMOM, 120 = E2MOM)
+  rounds: number; // number of intervals
 }
 
 export interface AmrapSettings {
   totalTime: number; // seconds
 }
 
+export interface ForTimeSettings {
+  timeCap: number; // seconds
+}
+
 export interface CountdownSettings {
   totalTime: number; // seconds
 }
 
+export interface RestSettings {
+  duration: number; // seconds of rest after each set
+}
+
+export type SegmentKind = "work" | "rest";
+
+export type SegmentColor = "red" | "blue" | "green" | "yellow";
+
+export interface IntervalSegment {
+  id: string;
+  label: string; // e.g. "Row", "Rest"
+  duration: number; // seconds
+  color: SegmentColor;
+  kind: SegmentKind;
+}
+
+export interface IntervalSettings {
+  segments: IntervalSegment[]; // run in order
+  repeat: number; // times through the whole list
+}
+
+/**
+ * A mode together with the settings it runs with.
+ * Clock and stopwatch have nothing to configure.
+ */
+export type WorkoutConfig =
+  | { mode: "clock" }
+  | { mode: "stopwatch" }
+  | { mode: "countdown"; settings: CountdownSettings }
+  | { mode: "tabata"; settings: TabataSettings }
+  | { mode: "emom"; settings: EmomSettings }
+  | { mode: "amrap"; settings: AmrapSettings }
+  | { mode: "fortime"; settings: ForTimeSettings }
+  | { mode: "intervals"; settings: IntervalSettings }
+  | { mode: "rest"; settings: RestSettings };
+
+/**
+ * One part of a workout program. Programs run their blocks back to back,
+ * e.g. a 10:00 AMRAP, 3:00 rest, a Tabata, then an EMOM.
+ */
+export interface ProgramBlock {
+  id: string;
+  config: WorkoutConfig;
+  intro: number; // seconds of countdown intro before the block (0 = none)
+  restAfter: number; // seconds of rest before the next block (0 = none)
+}
+
+export interface Preset {
+  id: string;
+  name: string; // e.g. "Fran 21-15-9 cap 10"
+  config: WorkoutConfig;
+  createdAt: number; // epoch ms
+}
+
+export interface Lap {
+  elapsed: number; // ms since the stopwatch started
+  split: number; // ms since the previous lap (or the start)
+}
+
+export type SessionStatus = "completed" | "abandoned";
+
+/** One run of a workout, kept in the history log */
+export interface Session {
+  id: string;
+  config: WorkoutConfig;
+  startedAt: number; // epoch ms when START was pressed
+  duration: number; // ms of workout actually run (intro excluded)
+  status: SessionStatus;
+  amrapRounds: number[]; // elapsed ms at each logged round (amrap, fortime)
+  laps: Lap[]; // stopwatch laps
+}
+
+/** The modes with transitions or a final countdown to flash on */
+export type FlashMode =
+  | "countdown"
+  | "tabata"
+  | "emom"
+  | "amrap"
+  | "fortime"
+  | "intervals"
+  | "rest";
+
+export interface FlashSettings {
+  modes: Record<FlashMode, boolean>; // flash on transitions and the last seconds
+  phaseTint: boolean; // tint the background by work/rest phase
+  reducedMotion: boolean; // hold a steady frame instead of flashing
+}
+
+/** Groups of spoken announcements that can be switched on and off */
+export type VoiceCue =
+  | "start" // "Go"
+  | "rounds" // "Round 3 of 8, work", "Rest", segment names
+  | "halfway"
+  | "remaining" // "2 minutes remaining" (countdown, AMRAP)
+  | "finish"; // "Time"
+
+export interface VoiceSettings {
+  enabled: boolean;
+  cues: Record<VoiceCue, boolean>;
+  remainingEvery: number; // minutes between "minutes remaining" calls
+}
+
+export interface SoundSettings {
+  volume: number; // 0-100
+  muted: boolean;
+  finalCountdown: boolean; // pip through the last 10 seconds of a workout
+}
+
 export interface TimerState {
   mode: TimerMode;
   isRunning: boolean;
-  currentTime: number; // milliseconds
+  currentTime: number; // milliseconds, derived from the timing anchor below
+  // Timing anchor - running time is accumulatedTime + (now - startedAt)
+  startedAt: number | null; // Date.now() when last started (null while stopped)
+  accumulatedTime: number; // ms run before the last start, intro included
+  introDuration: number; // ms at the start of this run spent on the intro
   countdown: CountdownSettings;
   tabata: TabataSettings;
   emom: EmomSettings;
   amrap: AmrapSettings;
-  // Tabata specific state
+  fortime: ForTimeSettings;
+  intervals: IntervalSettings;
+  rest: RestSettings;
+  // Tabata / intervals specific state
   currentRound: number;
   isWorkPhase: boolean;
+  currentSet: number; // tabata
   // EMOM specific state
   currentMinute: number;
+  // Intervals specific state
+  currentSegment: number; // 1-indexed within the segment list
+  // AMRAP and For Time specific state
+  amrapRounds: number[]; // elapsed ms at the moment each round was logged
+  // Stopwatch specific state
+  laps: Lap[];
+  // For Time specific state
+  finishTime: number | null; // ms, set when the athlete hits "done" before the cap
+  // Rest specific state - the run is the whole session, with rests inside it
+  restEndsAt: number | null; // currentTime the rest ends at (null = between rests)
+  restSets: number; // sets finished, one per rest started
+  restDuration: number; // seconds, length of the rest under way
+  // Program specific state (@see ProgramBlock)
+  program: ProgramBlock[]; // blocks being run (empty = a single workout)
+  programBlock: number; // 0-indexed block being run
+  isProgramRest: boolean; // resting after programBlock, before the next
+  setupBeforeProgram: WorkoutSetup | null; // put back when the program is left
   // Countdown intro (3-2-1 before workout starts)
   countdownIntro: number; // seconds (0 = disabled, typically 3, 5, or 10)
   isInCountdownIntro: boolean; // true while counting down intro
   introTimeRemaining: number; // milliseconds remaining in intro
+  // Audio cues
+  sound: SoundSettings;
+  voice: VoiceSettings;
+  haptics: boolean; // vibrate on transitions
+  // Visual cues
+  flash: FlashSettings;
+}
+
+/** The user's own per-mode settings and intro, put aside while a program runs */
+export type WorkoutSetup = Pick<
+  TimerState,
+  | "countdown"
+  | "tabata"
+  | "emom"
+  | "amrap"
+  | "fortime"
+  | "intervals"
+  | "rest"
+  | "countdownIntro"
+>;
+
+/** Colors the LCD digits can show. Interval segments use the first four. */
+export type DisplayColor =
+  | SegmentColor
+  | "white"
+  | "amber"
+  | "orange"
+  | "purple";
+
+/** The modes and phases a color theme picks a digit color for */
+export type ThemeSlot =
+  | "intro"
+  | "clock"
+  | "stopwatch"
+  | "countdown"
+  | "tabataWork"
+  | "tabataRest"
+  | "emom"
+  | "amrap"
+  | "forTime"
+  | "forTimeDone"
+  | "intervalsWork"
+  | "intervalsRest"
+  | "rest" // counting down a rest
+  | "restReady"; // rest over, time for the next set
+
+export interface ColorTheme {
+  colors: Record<ThemeSlot, DisplayColor>;
+  useSegmentColors: boolean; // intervals show each segment's own color instead
+  showProgress: boolean; // progress bar under the digits
 }
@@ -0,0 +1,119 @@
+import { getAnnouncement } from "../announcements";
+import { detectTimerEvents } from "../timerEvents";
+import { timerReducer, initialState } from "../../hooks/useTimer";
+import { TimerState } from "../../types";
+
+function makeState(overrides: Partial<TimerState> = {}): TimerState {
+  return {
+    ...initialState,
+    countdownIntro: 0,
+    voice: { ...initialState.voice, enabled: true },
+    ...overrides,
+  };
+}
+
+/** What gets said as the timer ticks from `fromMs` to `toMs` */
+function announce(state: TimerState, fromMs: number, toMs: number) {
+  const started = timerReducer(state, { type: "START", now: 0 });
+  const prev = timerReducer(started, { type: "TICK", now: fromMs });
+  const next = timerReducer(prev, { type: "TICK", now: toMs });
+  return getAnnouncement(detectTimerEvents(prev, next), next);
+}
+
+describe("getAnnouncement", () => {
+  it("calls tabata rounds and rests", () => {
+    // Default tabata: 20s work, 10s rest, 8 rounds
+    const state = makeState({ mode: "tabata" });
+    expect(announce(state, 19900, 20100)).toBe("Rest");
+    expect(announce(state, 29900, 30100)).toBe("Round 2 of 8, work");
+  });
+
+  it("calls new sets, the rest between them and the cool-down", () => {
+    const state = makeState({
+      mode: "tabata",
+      tabata: {
+        workTime: 20,
+        restTime: 10,
+        rounds: 2,
+        sets: 2,
+        setRest: 60,
+        coolDown: 30,
+        skipLastRest: true,
+      },
+    });
+    expect(announce(state, 49900, 50100)).toBe("Set rest");
+    expect(announce(state, 109900, 110100)).toBe(
+      "Set 2 of 2, round 1 of 2, work"
+    );
+    expect(announce(state, 159900, 160100)).toBe("Cool down");
+  });
+
+  it("joins events that land together", () => {
+    // Round 5 starts exactly halfway through 8 rounds
+    const state = makeState({ mode: "tabata" });
+    expect(announce(state, 119900, 120100)).toBe("Round 5 of 8, work. Halfway");
+  });
+
+  it("names interval segments, with the round at the start of each", () => {
+    const state = makeState({
+      mode: "intervals",
+      intervals: {
+        repeat: 2,
+        segments: [
+          { id: "a", label: "Row", duration: 60, color: "green", kind: "work" },
+          { id: "b", label: "Rest", duration: 30, color: "red", kind: "rest" },
+        ],
+      },
+    });
+    expect(announce(state, 59900, 60100)).toBe("Rest");
+    expect(announce(state, 89900, 90100)).toBe("Round 2 of 2, Row. Halfway");
+  });
+
+  it("calls minutes remaining at the chosen frequency", () => {
+    // 10 minute AMRAP
+    const state = makeState({
+      mode: "amrap",
+      amrap: { totalTime: 600 },
+      voice: { ...initialState.voice, enabled: true, remainingEvery: 2 },
+    });
+    // Called as the display turns to N:00, just under a second early
+    expect(announce(state, 58900, 59100)).toBeNull(); // 9 left
+    expect(announce(state, 118900, 119100)).toBe("8 minutes remaining");
+    expect(announce(state, 538900, 539100)).toBe("1 minute remaining");
+  });
+
+  it("leaves minutes remaining to countdown and AMRAP", () => {
+    const state = makeState({ mode: "emom" });
+    expect(announce(state, 59900, 60100)).toBe("Round 2 of 10");
+  });
+
+  it("says Time at the end", () => {
+    const state = makeState({ mode: "countdown" });
+    const duration = state.countdown.totalTime * 1000;
+    expect(announce(state, duration - 100, duration)).toBe("Time");
+  });
+
+  it("calls the next set when a rest runs out", () => {
+    const rested = timerReducer(makeState({ mode: "rest" }), {
+      type: "START_REST",
+      now: 0,
+    });
+    const prev = timerReducer(rested, { type: "TICK", now: 89900 });
+    const next = timerReducer(prev, { type: "TICK", now: 90100 });
+    expect(getAnnouncement(detectTimerEvents(prev, next), next)).toBe(
+      "Next set"
+    );
+  });
+
+  it("skips switched-off cues", () => {
+    const state = makeState({
+      mode: "tabata",
+      voice: {
+        ...initialState.voice,
+        enabled: true,
+        cues: { ...initialState.voice.cues, halfway: false },
+      },
+    });
+    expect(announce(state, 119900, 120100)).toBe("Round 5 of 8, work");
+  });
+});
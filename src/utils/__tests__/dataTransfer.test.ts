@@ -0,0 +1,199 @@
+import { exportCsv, exportJson, importData } from "../dataTransfer";
+import { Preset, Session } from "../../types";
+import { TABATA_SET_DEFAULTS } from "../tabata";
+
+const presets: Preset[] = [
+  {
+    id: "p1",
+    name: "Tabata, classic",
+    config: {
+      mode: "tabata",
+      settings: {
+        workTime: 20,
+        restTime: 10,
+        rounds: 8,
+        ...TABATA_SET_DEFAULTS,
+      },
+    },
+    createdAt: Date.UTC(2025, 5, 1),
+  },
+  {
+    id: "p2",
+    name: "Row/Bike",
+    config: {
+      mode: "intervals",
+      settings: {
+        repeat: 3,
+        segments: [
+          { id: "a", label: "Row", duration: 180, color: "red", kind: "work" },
+          { id: "b", label: "Rest", duration: 60, color: "blue", kind: "rest" },
+        ],
+      },
+    },
+    createdAt: Date.UTC(2025, 5, 2),
+  },
+];
+
+const sessions: Session[] = [
+  {
+    id: "s1",
+    config: { mode: "amrap", settings: { totalTime: 600 } },
+    startedAt: Date.UTC(2025, 5, 3, 7, 30),
+    duration: 600000,
+    status: "completed",
+    amrapRounds: [120000, 250000],
+    laps: [],
+  },
+  {
+    id: "s2",
+    config: { mode: "stopwatch" },
+    startedAt: Date.UTC(2025, 5, 4, 18),
+    duration: 95000,
+    status: "completed",
+    amrapRounds: [],
+    laps: [
+      { elapsed: 40000, split: 40000 },
+      { elapsed: 95000, split: 55000 },
+    ],
+  },
+];
+
+describe("JSON export", () => {
+  it("round-trips presets and sessions", () => {
+    const result = importData(exportJson({ presets, sessions }));
+    expect(result.errors).toEqual([]);
+    expect(result.presets).toEqual(presets);
+    expect(result.sessions).toEqual(sessions);
+  });
+
+  it("rejects bad records one by one and keeps the rest", () => {
+    const file = JSON.stringify({
+      format: "gym-clock",
+      version: 1,
+      presets: [
+        presets[0],
+        {
+          id: "bad",
+          name: "Broken EMOM",
+          config: { mode: "emom", settings: { intervalTime: 60, rounds: 0 } },
+        },
+        { name: "No mode", config: { settings: {} } },
+      ],
+      sessions: [{ ...sessions[0], status: "maybe" }],
+    });
+
+    const result = importData(file);
+    expect(result.presets).toEqual([presets[0]]);
+    expect(result.sessions).toEqual([]);
+    expect(result.errors).toEqual([
+      {
+        record: "Preset 2 (Broken EMOM)",
+        message: "emom.rounds must be a whole number of at least 1",
+      },
+      { record: "Preset 3 (No mode)", message: 'unknown mode "undefined"' },
+      {
+        record: "Session 1",
+        message: 'status must be "completed" or "abandoned"',
+      },
+    ]);
+  });
+
+  it("refuses files from a newer version", () => {
+    const result = importData(
+      JSON.stringify({ format: "gym-clock", version: 99, presets })
+    );
+    expect(result.presets).toEqual([]);
+    expect(result.errors[0].message).toMatch(/newer version/);
+  });
+
+  it("reports unreadable JSON", () => {
+    expect(importData("{ nope").errors).toEqual([
+      { record: "File", message: "not valid JSON" },
+    ]);
+  });
+});
+
+describe("CSV export", () => {
+  it("round-trips presets and sessions", () => {
+    const result = importData(exportCsv({ presets, sessions }));
+    expect(result.errors).toEqual([]);
+    expect(result.presets).toEqual([
+      presets[0],
+      {
+        ...presets[1],
+        config: {
+          mode: "intervals",
+          settings: {
+            repeat: 3,
+            // Segment ids aren't exported
+            segments: [
+              expect.objectContaining({ label: "Row", duration: 180 }),
+              expect.objectContaining({ label: "Rest", duration: 60 }),
+            ],
+          },
+        },
+      },
+    ]);
+    expect(result.sessions).toEqual(sessions);
+  });
+
+  it("round-trips segment labels with the separators in them", () => {
+    const labels = ["Run|Row", "5:00 pace", "C:\\x|y"];
+    const preset: Preset = {
+      ...presets[1],
+      config: {
+        mode: "intervals",
+        settings: {
+          repeat: 1,
+          segments: labels.map((label, i) => ({
+            id: String(i),
+            label,
+            duration: 60,
+            color: "green",
+            kind: "work",
+          })),
+        },
+      },
+    };
+
+    const result = importData(exportCsv({ presets: [preset], sessions: [] }));
+    expect(result.errors).toEqual([]);
+    const config = result.presets[0].config;
+    expect(
+      config.mode === "intervals" &&
+        config.settings.segments.map((s) => s.label)
+    ).toEqual(labels);
+  });
+
+  it("quotes names with commas", () => {
+    expect(exportCsv({ presets, sessions: [] })).toContain('"Tabata, classic"');
+  });
+
+  it("matches columns by name and reports bad rows by line", () => {
+    const csv = [
+      "mode,type,name,total_time,work_time,rest_time,rounds",
+      "countdown,preset,Five minutes,300,,,",
+      "tabata,preset,Half tabata,,20,10,four",
+      "countdown,workout,Odd,60,,,",
+    ].join("\n");
+
+    const result = importData(csv);
+    expect(result.presets).toMatchObject([
+      {
+        name: "Five minutes",
+        config: { mode: "countdown", settings: { totalTime: 300 } },
+      },
+    ]);
+    expect(result.errors).toEqual([
+      {
+        record: "Row 3",
+        message: "tabata.rounds must be a whole number of at least 1",
+      },
+      { record: "Row 4", message: 'type must be "preset" or "session"' },
+    ]);
+  });
+
+  it("needs a header row", () => {
+    expect(importData("tabata,20,10,8").errors[0].record).toBe("File");
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  formatProgramNext,
+  formatProgramPart,
+  getNextProgramStep,
+} from "../program";
+import { detectTimerEvents } from "../timerEvents";
+import { timerReducer, initialState } from "../../hooks/useTimer";
+import { ProgramBlock, TimerState } from "../../types";
+import { TABATA_SET_DEFAULTS } from "../tabata";
+
+const blocks: ProgramBlock[] = [
+  {
+    id: "a",
+    config: { mode: "amrap", settings: { totalTime: 600 } },
+    intro: 10,
+    restAfter: 180,
+  },
+  {
+    id: "b",
+    config: {
+      mode: "tabata",
+      settings: {
+        workTime: 20,
+        restTime: 10,
+        rounds: 8,
+        ...TABATA_SET_DEFAULTS,
+      },
+    },
+    intro: 0,
+    restAfter: 0,
+  },
+  {
+    id: "c",
+    config: { mode: "emom", settings: { intervalTime: 60, rounds: 10 } },
+    intro: 0,
+    restAfter: 60,
+  },
+];
+
+function at(programBlock: number, isProgramRest = false) {
+  return { program: blocks, programBlock, isProgramRest };
+}
+
+describe("getNextProgramStep", () => {
+  it("rests after a block only when it has a rest", () => {
+    expect(getNextProgramStep(at(0))).toEqual({ block: 0, isRest: true });
+    expect(getNextProgramStep(at(0, true))).toEqual({
+      block: 1,
+      isRest: false,
+    });
+    expect(getNextProgramStep(at(1))).toEqual({ block: 2, isRest: false });
+  });
+
+  it("ends after the last block, whatever its rest", () => {
+    expect(getNextProgramStep(at(2))).toBeNull();
+  });
+});
+
+describe("program labels", () => {
+  it("names the part and what's next", () => {
+    expect(formatProgramPart(at(1))).toBe("Part B - 2/3");
+    expect(formatProgramNext(at(0))).toBe("Next: Rest 3:00");
+    expect(formatProgramNext(at(0, true))).toBe("Next: B Tabata 8 x 0:20/0:10");
+    expect(formatProgramNext(at(2))).toBeNull();
+  });
+
+  it("shows nothing outside a program", () => {
+    expect(formatProgramPart({ ...at(0), program: [] })).toBeNull();
+  });
+});
+
+describe("program events", () => {
+  it("sounds the end of a block and the start of the next", () => {
+    let state: TimerState = timerReducer(initialState, {
+      type: "SET_PROGRAM",
+      blocks: [
+        { ...blocks[1], restAfter: 0 },
+        { ...blocks[2], intro: 0 },
+      ],
+    });
+    state = timerReducer(state, { type: "START", now: 0 });
+    const prev = timerReducer(state, { type: "TICK", now: 239900 });
+    const next = timerReducer(prev, { type: "TICK", now: 240100 });
+
+    expect(next.mode).toBe("emom");
+    expect(detectTimerEvents(prev, next)).toEqual([
+      { type: "COMPLETE" },
+      { type: "INTRO_END" },
+    ]);
+  });
+});
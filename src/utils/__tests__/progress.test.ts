@@ -0,0 +1,92 @@
+import { getProgress } from "../progress";
+import { timerReducer, initialState } from "../../hooks/useTimer";
+import { TimerState } from "../../types";
+
+function makeState(overrides: Partial<TimerState> = {}): TimerState {
+  return { ...initialState, countdownIntro: 0, ...overrides };
+}
+
+/** The state `ms` into a run started from `state` */
+function runFor(state: TimerState, ms: number): TimerState {
+  const started = timerReducer(state, { type: "START", now: 0 });
+  return timerReducer(started, { type: "TICK", now: ms });
+}
+
+describe("getProgress", () => {
+  it("has nothing to show for clock and stopwatch", () => {
+    expect(getProgress(makeState({ mode: "clock" }))).toBeNull();
+    expect(getProgress(runFor(makeState({ mode: "stopwatch" }), 5000))).toBe(
+      null
+    );
+  });
+
+  it("tracks a countdown overall, with no phase", () => {
+    const state = makeState({
+      mode: "countdown",
+      countdown: { totalTime: 100 },
+    });
+    expect(getProgress(runFor(state, 25000))).toEqual({
+      overall: 0.25,
+      phase: null,
+      ticks: [],
+    });
+    expect(getProgress(runFor(state, 200000))?.overall).toBe(1);
+  });
+
+  it("tracks the tabata phase, with a tick at each round", () => {
+    // Default tabata: 8 x 20/10, 4:00 in all
+    const progress = getProgress(runFor(makeState({ mode: "tabata" }), 35000));
+    expect(progress?.overall).toBeCloseTo(35 / 240);
+    expect(progress?.phase).toBeCloseTo(5 / 20);
+    expect(progress?.ticks).toHaveLength(7);
+    expect(progress?.ticks[0]).toBeCloseTo(30 / 240);
+  });
+
+  it("places ticks at round starts when sets have a longer rest", () => {
+    const state = makeState({
+      mode: "tabata",
+      tabata: {
+        workTime: 20,
+        restTime: 10,
+        rounds: 2,
+        sets: 2,
+        setRest: 60,
+        coolDown: 0,
+        skipLastRest: true,
+      },
+    });
+    // Rounds start at 0, 30, 110 and 140 of 160 seconds
+    expect(getProgress(state)?.ticks).toEqual([30 / 160, 110 / 160, 140 / 160]);
+    expect(getProgress(runFor(state, 80000))?.phase).toBeCloseTo(30 / 60);
+  });
+
+  it("tracks the EMOM interval", () => {
+    const state = makeState({
+      mode: "emom",
+      emom: { intervalTime: 60, rounds: 4 },
+    });
+    const progress = getProgress(runFor(state, 90000));
+    expect(progress?.overall).toBeCloseTo(90 / 240);
+    expect(progress?.phase).toBeCloseTo(0.5);
+    expect(progress?.ticks).toEqual([0.25, 0.5, 0.75]);
+  });
+
+  it("shows the intro as the phase before the workout starts", () => {
+    const state = makeState({ mode: "amrap", countdownIntro: 10 });
+    const progress = getProgress(runFor(state, 4000));
+    expect(progress?.overall).toBe(0);
+    expect(progress?.phase).toBeCloseTo(0.4);
+  });
+
+  it("fills up through each rest", () => {
+    const state = makeState({ mode: "rest", rest: { duration: 100 } });
+    expect(getProgress(state)?.overall).toBe(0);
+
+    const resting = timerReducer(state, { type: "START_REST", now: 0 });
+    const halfway = timerReducer(resting, { type: "TICK", now: 50000 });
+    expect(getProgress(halfway)?.overall).toBeCloseTo(0.5);
+
+    const rested = timerReducer(halfway, { type: "TICK", now: 120000 });
+    expect(getProgress(rested)?.overall).toBe(1);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  createSession,
+  groupSessionsByDay,
+  getWeeklyTotals,
+  startOfWeek,
+} from "../sessions";
+import { initialState } from "../../hooks/useTimer";
+import { Session } from "../../types";
+
+// Local times, so the tests don't depend on the machine's timezone
+const at = (day: number, hour: number = 12) =>
+  new Date(2025, 5, day, hour).getTime(); // June 2025, the 2nd is a Monday
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: "s",
+    config: { mode: "stopwatch" },
+    startedAt: at(2),
+    duration: 60000,
+    status: "completed",
+    amrapRounds: [],
+    laps: [],
+    ...overrides,
+  };
+}
+
+describe("createSession", () => {
+  it("captures the workout, time and rounds from the state", () => {
+    const session = createSession(
+      {
+        ...initialState,
+        mode: "amrap",
+        amrap: { totalTime: 600 },
+        currentTime: 600000,
+        amrapRounds: [120000, 250000],
+      },
+      at(2),
+      "completed"
+    );
+
+    expect(session).toMatchObject({
+      config: { mode: "amrap", settings: { totalTime: 600 } },
+      startedAt: at(2),
+      duration: 600000,
+      status: "completed",
+      amrapRounds: [120000, 250000],
+    });
+  });
+
+  it("uses the finish time when For Time is marked done", () => {
+    const session = createSession(
+      {
+        ...initialState,
+        mode: "fortime",
+        currentTime: 300500,
+        finishTime: 300000,
+      },
+      at(2),
+      "completed"
+    );
+    expect(session.duration).toBe(300000);
+  });
+
+  it("keeps the rounds logged during For Time", () => {
+    const session = createSession(
+      {
+        ...initialState,
+        mode: "fortime",
+        currentTime: 300500,
+        finishTime: 300000,
+        amrapRounds: [140000, 290000],
+      },
+      at(2),
+      "completed"
+    );
+    expect(session.amrapRounds).toEqual([140000, 290000]);
+  });
+});
+
+describe("startOfWeek", () => {
+  it("goes back to Monday midnight", () => {
+    expect(startOfWeek(at(2, 0))).toBe(at(2, 0));
+    expect(startOfWeek(at(5, 18))).toBe(at(2, 0));
+    expect(startOfWeek(at(8, 23))).toBe(at(2, 0)); // Sunday
+    expect(startOfWeek(at(9, 1))).toBe(at(9, 0));
+  });
+});
+
+describe("groupSessionsByDay", () => {
+  it("groups by start day, newest first", () => {
+    const days = groupSessionsByDay([
+      makeSession({ id: "a", startedAt: at(2, 8) }),
+      makeSession({ id: "b", startedAt: at(3, 9) }),
+      makeSession({ id: "c", startedAt: at(2, 18) }),
+    ]);
+
+    expect(days.map((d) => d.day)).toEqual([at(3, 0), at(2, 0)]);
+    expect(days[1].sessions.map((s) => s.id)).toEqual(["c", "a"]);
+  });
+});
+
+describe("getWeeklyTotals", () => {
+  it("sums count and duration per week, including empty weeks", () => {
+    const totals = getWeeklyTotals(
+      [
+        makeSession({ startedAt: at(10), duration: 60000 }),
+        makeSession({ startedAt: at(12), duration: 120000 }),
+        makeSession({ startedAt: at(2), duration: 30000 }),
+      ],
+      at(14),
+      3
+    );
+
+    expect(totals).toEqual([
+      { weekStart: at(9, 0), count: 2, duration: 180000 },
+      { weekStart: at(2, 0), count: 1, duration: 30000 },
+      { weekStart: new Date(2025, 4, 26).getTime(), count: 0, duration: 0 },
+    ]);
+  });
+
+  it("ignores sessions older than the window", () => {
+    const totals = getWeeklyTotals(
+      [makeSession({ startedAt: at(2) })],
+      at(30),
+      1
+    );
+    expect(totals[0].count).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { decodeWorkout, encodeWorkout } from "../shareCode";
+import { WorkoutConfig } from "../../types";
+import { TABATA_SET_DEFAULTS } from "../tabata";
+
+const configs: WorkoutConfig[] = [
+  { mode: "clock" },
+  { mode: "stopwatch" },
+  { mode: "countdown", settings: { totalTime: 180 } },
+  {
+    mode: "tabata",
+    settings: { workTime: 20, restTime: 10, rounds: 8, ...TABATA_SET_DEFAULTS },
+  },
+  {
+    mode: "tabata",
+    settings: {
+      workTime: 40,
+      restTime: 20,
+      rounds: 8,
+      sets: 4,
+      setRest: 120,
+      coolDown: 300,
+      skipLastRest: true,
+    },
+  },
+  { mode: "emom", settings: { intervalTime: 90, rounds: 12 } },
+  { mode: "amrap", settings: { totalTime: 900 } },
+  { mode: "fortime", settings: { timeCap: 1200 } },
+  { mode: "rest", settings: { duration: 90 } },
+  {
+    mode: "intervals",
+    settings: {
+      repeat: 3,
+      segments: [
+        {
+          id: "a",
+          label: "400m Run",
+          duration: 120,
+          color: "green",
+          kind: "work",
+        },
+        {
+          id: "b",
+          label: "Récup 💤",
+          duration: 60,
+          color: "red",
+          kind: "rest",
+        },
+      ],
+    },
+  },
+];
+
+/** Swap one character of the code's data section */
+function tamper(code: string): string {
+  const [version, data, check] = code.split(".");
+  const i = Math.floor(data.length / 2);
+  const swapped = data[i] === "A" ? "B" : "A";
+  return [version, data.slice(0, i) + swapped + data.slice(i + 1), check].join(
+    "."
+  );
+}
+
+describe("share codes", () => {
+  it.each(configs.map((config) => [config.mode, config]))(
+    "round-trips %s",
+    (_, config) => {
+      const code = encodeWorkout(config);
+      expect(code).toMatch(/^1\.[\w-]+\.[0-9a-f]{8}$/);
+
+      const result = decodeWorkout(code);
+      expect(result.ok).toBe(true);
+      if (result.ok && result.value.mode === "intervals") {
+        // Segment ids are remade on decode
+        const strip = (c: typeof result.value) =>
+          c.settings.segments.map(({ id, ...rest }) => rest);
+        expect(strip(result.value)).toEqual(
+          strip(config as typeof result.value)
+        );
+        expect(result.value.settings.repeat).toBe(3);
+      } else if (result.ok) {
+        expect(result.value).toEqual(config);
+      }
+    }
+  );
+
+  it("round-trips labels the way the builder can leave them", () => {
+    const config: WorkoutConfig = {
+      mode: "intervals",
+      settings: {
+        repeat: 2,
+        segments: [
+          { id: "a", label: "Row ", duration: 180, color: "red", kind: "work" },
+          { id: "b", label: "", duration: 60, color: "blue", kind: "rest" },
+        ],
+      },
+    };
+
+    const result = decodeWorkout(encodeWorkout(config));
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.mode === "intervals") {
+      expect(result.value.settings.segments.map((s) => s.label)).toEqual([
+        "Row",
+        "Rest",
+      ]);
+    }
+  });
+
+  it("round-trips intervals with no segments", () => {
+    const config: WorkoutConfig = {
+      mode: "intervals",
+      settings: { repeat: 3, segments: [] },
+    };
+    expect(decodeWorkout(encodeWorkout(config))).toEqual({
+      ok: true,
+      value: config,
+    });
+  });
+
+  it("rejects tampered codes", () => {
+    for (const config of configs) {
+      expect(decodeWorkout(tamper(encodeWorkout(config))).ok).toBe(false);
+    }
+  });
+
+  it("rejects malformed codes", () => {
+    const code = encodeWorkout(configs[3]);
+    expect(decodeWorkout("").ok).toBe(false);
+    expect(decodeWorkout("hello").ok).toBe(false);
+    expect(decodeWorkout(code.slice(0, -1)).ok).toBe(false);
+    expect(decodeWorkout(code + ".x").ok).toBe(false);
+    expect(decodeWorkout(code.replace(/^1/, "2"))).toEqual({
+      ok: false,
+      error: "This workout code needs a newer version of the app",
+    });
+  });
+});
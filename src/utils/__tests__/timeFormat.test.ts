@@ -0,0 +1,294 @@
+import {
+  formatTime,
+  formatCountdown,
+  formatTabata,
+  formatEmom,
+  formatAmrap,
+  formatIntroCountdown,
+  formatRest,
+  formatForTime,
+  formatNextUp,
+  getTotalDuration,
+  getRemainingDuration,
+} from "../timeFormat";
+import { initialState } from "../../hooks/useTimer";
+import { TimerState } from "../../types";
+import { TABATA_SET_DEFAULTS } from "../tabata";
+
+function makeState(overrides: Partial<TimerState> = {}): TimerState {
+  return { ...initialState, ...overrides };
+}
+
+describe("formatTime", () => {
+  it("formats minutes and seconds", () => {
+    expect(formatTime(0)).toBe("00:00");
+    expect(formatTime(59999)).toBe("00:59");
+    expect(formatTime(754000)).toBe("12:34");
+  });
+
+  it("adds centiseconds when asked", () => {
+    expect(formatTime(61234, true)).toBe("01:01.23");
+  });
+});
+
+describe("formatTabata", () => {
+  const tabata = {
+    workTime: 20,
+    restTime: 10,
+    rounds: 8,
+    ...TABATA_SET_DEFAULTS,
+  };
+
+  it("shows the full work phase at the start of a round", () => {
+    const result = formatTabata(
+      makeState({ tabata, currentTime: 30000, currentRound: 2 })
+    );
+    expect(result).toEqual({ time: "00:20", round: "2/8", phase: "WORK" });
+  });
+
+  it("shows the full rest phase at the work/rest boundary", () => {
+    const result = formatTabata(
+      makeState({ tabata, currentTime: 20000, isWorkPhase: false })
+    );
+    expect(result).toEqual({ time: "00:10", round: "1/8", phase: "REST" });
+  });
+
+  it("counts down within a phase", () => {
+    const result = formatTabata(makeState({ tabata, currentTime: 5500 }));
+    expect(result.time).toBe("00:14");
+  });
+});
+
+describe("formatTabata with sets", () => {
+  const tabata = {
+    workTime: 20,
+    restTime: 10,
+    rounds: 2,
+    sets: 2,
+    setRest: 60,
+    coolDown: 30,
+    skipLastRest: true,
+  };
+
+  it("shows the set alongside the round", () => {
+    expect(formatTabata(makeState({ tabata, currentTime: 115500 }))).toEqual({
+      time: "00:14",
+      round: "SET 2/2 · ROUND 1/2",
+      phase: "WORK",
+    });
+  });
+
+  it("names the rest between sets and the cool-down", () => {
+    expect(formatTabata(makeState({ tabata, currentTime: 60000 }))).toEqual({
+      time: "00:50",
+      round: "SET 1/2 · ROUND 2/2",
+      phase: "SET REST",
+    });
+    expect(formatTabata(makeState({ tabata, currentTime: 170000 }))).toEqual({
+      time: "00:20",
+      round: "SET 2/2 · ROUND 2/2",
+      phase: "COOL DOWN",
+    });
+  });
+
+  it("holds on the cool-down, run out, at the end", () => {
+    const result = formatTabata(makeState({ tabata, currentTime: 190000 }));
+    expect(result.time).toBe("00:00");
+    expect(result.phase).toBe("COOL DOWN");
+  });
+});
+
+describe("formatEmom", () => {
+  it("shows a full interval at each rollover", () => {
+    const emom = { intervalTime: 60, rounds: 10 };
+    expect(formatEmom(makeState({ emom, currentTime: 0 }))).toEqual({
+      time: "01:00",
+      minute: "1/10",
+    });
+    expect(
+      formatEmom(makeState({ emom, currentTime: 60000, currentMinute: 2 }))
+    ).toEqual({ time: "01:00", minute: "2/10" });
+  });
+
+  it("uses the configured interval length", () => {
+    const emom = { intervalTime: 90, rounds: 10 };
+    expect(formatEmom(makeState({ emom, currentTime: 45000 })).time).toBe(
+      "00:45"
+    );
+  });
+
+  it("holds at 00:00 once complete instead of wrapping", () => {
+    const emom = { intervalTime: 120, rounds: 10 };
+    const result = formatEmom(
+      makeState({ emom, currentTime: 1200000, currentMinute: 10 })
+    );
+    expect(result).toEqual({ time: "00:00", minute: "10/10" });
+  });
+});
+
+describe("formatCountdown and formatAmrap", () => {
+  it("never go below zero", () => {
+    const state = makeState({
+      countdown: { totalTime: 60 },
+      amrap: { totalTime: 60 },
+      currentTime: 90000,
+    });
+    expect(formatCountdown(state)).toBe("00:00");
+    expect(formatAmrap(state)).toBe("00:00");
+  });
+
+  it("show the time remaining", () => {
+    const state = makeState({
+      countdown: { totalTime: 180 },
+      amrap: { totalTime: 600 },
+      currentTime: 30000,
+    });
+    expect(formatCountdown(state)).toBe("02:30");
+    expect(formatAmrap(state)).toBe("09:30");
+  });
+});
+
+describe("formatIntroCountdown", () => {
+  it("rounds up so the first second shows the full intro", () => {
+    const state = makeState({ isInCountdownIntro: true });
+    expect(formatIntroCountdown({ ...state, introTimeRemaining: 10000 })).toBe(
+      "00:10"
+    );
+    expect(formatIntroCountdown({ ...state, introTimeRemaining: 9001 })).toBe(
+      "00:10"
+    );
+    expect(formatIntroCountdown({ ...state, introTimeRemaining: 1 })).toBe(
+      "00:01"
+    );
+  });
+
+  it("shows 00:00 outside the intro", () => {
+    expect(formatIntroCountdown(makeState())).toBe("00:00");
+  });
+});
+
+describe("formatRest", () => {
+  const rest = { duration: 120 };
+
+  it("shows the rest left and the set just done", () => {
+    const state = makeState({
+      rest,
+      restEndsAt: 200000,
+      restSets: 3,
+      currentTime: 135500,
+    });
+    expect(formatRest(state)).toEqual({
+      time: "01:04",
+      set: "SET 3",
+      session: "02:15",
+    });
+  });
+
+  it("shows the next rest and the set under way when idle", () => {
+    const state = makeState({ rest, restSets: 3, currentTime: 200000 });
+    expect(formatRest(state)).toEqual({
+      time: "02:00",
+      set: "SET 4",
+      session: "03:20",
+    });
+  });
+});
+
+describe("formatForTime", () => {
+  it("counts up with no rounds until one is logged", () => {
+    expect(formatForTime(makeState({ currentTime: 65000 }))).toEqual({
+      time: "01:05",
+      status: "",
+      rounds: "",
+    });
+  });
+
+  it("keeps the round count once done", () => {
+    const state = makeState({
+      currentTime: 300500,
+      finishTime: 300000,
+      amrapRounds: [90000, 200000, 290000],
+    });
+    expect(formatForTime(state)).toEqual({
+      time: "05:00",
+      status: "DONE",
+      rounds: "3 RDS",
+    });
+  });
+});
+
+describe("getTotalDuration and getRemainingDuration", () => {
+  it("covers every mode with an end", () => {
+    expect(getTotalDuration(makeState({ mode: "countdown" }))).toBe(180000);
+    expect(getTotalDuration(makeState({ mode: "tabata" }))).toBe(240000);
+    expect(getTotalDuration(makeState({ mode: "emom" }))).toBe(600000);
+    expect(getTotalDuration(makeState({ mode: "amrap" }))).toBe(600000);
+    expect(getTotalDuration(makeState({ mode: "fortime" }))).toBe(720000);
+    expect(getTotalDuration(makeState({ mode: "intervals" }))).toBe(1260000);
+  });
+
+  it("has no end for clock, stopwatch and rest", () => {
+    for (const mode of ["clock", "stopwatch", "rest"] as const) {
+      expect(getTotalDuration(makeState({ mode }))).toBeNull();
+      expect(getRemainingDuration(makeState({ mode }))).toBeNull();
+    }
+  });
+
+  it("counts down what's left, stopping at zero", () => {
+    const state = makeState({ mode: "emom", currentTime: 150000 });
+    expect(getRemainingDuration(state)).toBe(450000);
+    expect(getRemainingDuration({ ...state, currentTime: 700000 })).toBe(0);
+  });
+
+  it("has nothing left once For Time is done", () => {
+    const state = makeState({
+      mode: "fortime",
+      currentTime: 300000,
+      finishTime: 300000,
+    });
+    expect(getRemainingDuration(state)).toBe(0);
+  });
+});
+
+describe("formatNextUp", () => {
+  it("previews the tabata rest, then the next round", () => {
+    const state = makeState({ mode: "tabata" });
+    expect(formatNextUp({ ...state, currentTime: 5000 })).toBe(
+      "NEXT: REST 0:10"
+    );
+    expect(formatNextUp({ ...state, currentTime: 25000 })).toBe(
+      "NEXT: ROUND 2"
+    );
+  });
+
+  it("previews the rest between sets and the next set", () => {
+    const tabata = {
+      workTime: 20,
+      restTime: 10,
+      rounds: 2,
+      sets: 2,
+      setRest: 60,
+      coolDown: 0,
+      skipLastRest: true,
+    };
+    const state = makeState({ mode: "tabata", tabata });
+    expect(formatNextUp({ ...state, currentTime: 35000 })).toBe(
+      "NEXT: SET REST 1:00"
+    );
+    expect(formatNextUp({ ...state, currentTime: 60000 })).toBe("NEXT: SET 2");
+    // Nothing after the last work phase
+    expect(formatNextUp({ ...state, currentTime: 150000 })).toBeNull();
+  });
+
+  it("previews the next EMOM round until the last", () => {
+    const state = makeState({ mode: "emom" });
+    expect(formatNextUp({ ...state, currentTime: 30000 })).toBe(
+      "NEXT: ROUND 2"
+    );
+    expect(formatNextUp({ ...state, currentTime: 570000 })).toBeNull();
+  });
+
+  it("has nothing to preview in other modes", () => {
+    expect(formatNextUp(makeState({ mode: "amrap" }))).toBeNull();
+  });
+});
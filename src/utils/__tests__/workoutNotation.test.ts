@@ -0,0 +1,121 @@
+import { parseDuration, parseWorkout } from "../workoutNotation";
+import { TABATA_SET_DEFAULTS } from "../tabata";
+
+describe("parseDuration", () => {
+  it("reads m:ss and h:mm:ss", () => {
+    expect(parseDuration("1:30", "minutes")).toBe(90);
+    expect(parseDuration("15:00", "seconds")).toBe(900);
+    expect(parseDuration("1:00:00", "seconds")).toBe(3600);
+    expect(parseDuration("1:75", "seconds")).toBeNull();
+  });
+
+  it("reads unit suffixes", () => {
+    expect(parseDuration("90s", "minutes")).toBe(90);
+    expect(parseDuration("2m", "seconds")).toBe(120);
+    expect(parseDuration("1m30s", "seconds")).toBe(90);
+    expect(parseDuration("2 min", "seconds")).toBe(120);
+  });
+
+  it("uses the given unit for bare numbers", () => {
+    expect(parseDuration("15", "minutes")).toBe(900);
+    expect(parseDuration("20", "seconds")).toBe(20);
+    expect(parseDuration("soon", "seconds")).toBeNull();
+  });
+});
+
+describe("parseWorkout", () => {
+  it("parses tabata", () => {
+    expect(parseWorkout("tabata 8x20/10")).toEqual({
+      ok: true,
+      value: {
+        mode: "tabata",
+        settings: {
+          workTime: 20,
+          restTime: 10,
+          rounds: 8,
+          ...TABATA_SET_DEFAULTS,
+        },
+      },
+    });
+    expect(parseWorkout("Tabata 10 x 30s/15s")).toMatchObject({
+      value: { settings: { workTime: 30, restTime: 15, rounds: 10 } },
+    });
+  });
+
+  it("parses tabata sets", () => {
+    expect(parseWorkout("tabata 4x8x20/10")).toMatchObject({
+      value: { mode: "tabata", settings: { sets: 4, rounds: 8, workTime: 20 } },
+    });
+  });
+
+  it("parses emom with an optional interval", () => {
+    expect(parseWorkout("emom 12")).toMatchObject({
+      value: { mode: "emom", settings: { intervalTime: 60, rounds: 12 } },
+    });
+    expect(parseWorkout("emom 12 @90s")).toMatchObject({
+      value: { settings: { intervalTime: 90, rounds: 12 } },
+    });
+    expect(parseWorkout("emom 20 every 2:00")).toMatchObject({
+      value: { settings: { intervalTime: 120, rounds: 20 } },
+    });
+    expect(parseWorkout("emom 10 every 2")).toMatchObject({
+      value: { settings: { intervalTime: 120 } },
+    });
+  });
+
+  it("parses amrap, for time and countdown lengths", () => {
+    expect(parseWorkout("amrap 15")).toMatchObject({
+      value: { mode: "amrap", settings: { totalTime: 900 } },
+    });
+    expect(parseWorkout("amrap 15:00")).toMatchObject({
+      value: { mode: "amrap", settings: { totalTime: 900 } },
+    });
+    expect(parseWorkout("for time cap 20")).toMatchObject({
+      value: { mode: "fortime", settings: { timeCap: 1200 } },
+    });
+    expect(parseWorkout("countdown 3:00")).toMatchObject({
+      value: { mode: "countdown", settings: { totalTime: 180 } },
+    });
+  });
+
+  it("parses rest lengths, in seconds when bare", () => {
+    expect(parseWorkout("rest 90")).toMatchObject({
+      value: { mode: "rest", settings: { duration: 90 } },
+    });
+    expect(parseWorkout("rest 2:00")).toMatchObject({
+      value: { mode: "rest", settings: { duration: 120 } },
+    });
+  });
+
+  it("parses intervals, keeping labels as typed", () => {
+    const result = parseWorkout("3x(400m Run 2:00, rest 1:00)");
+    expect(result).toMatchObject({
+      ok: true,
+      value: {
+        mode: "intervals",
+        settings: {
+          repeat: 3,
+          segments: [
+            { label: "400m Run", duration: 120, kind: "work" },
+            { label: "rest", duration: 60, kind: "rest" },
+          ],
+        },
+      },
+    });
+  });
+
+  it("explains input that doesn't parse", () => {
+    const error = (text: string) => {
+      const result = parseWorkout(text);
+      return result.ok ? null : result.error;
+    };
+
+    expect(error("")).toMatch(/Type a workout/);
+    expect(error("yoga 30")).toMatch(/Unknown workout "yoga"/);
+    expect(error("tabata 8x20")).toMatch(/rounds x work\/rest/);
+    expect(error("amrap")).toMatch(/needs a time/);
+    expect(error("amrap soon")).toBe(`Couldn't read "soon" as a time`);
+    expect(error("3x(run, rest 1:00)")).toMatch(/name and a time/);
+    expect(error("emom 0")).toMatch(/won't run: emom.rounds/);
+  });
+});
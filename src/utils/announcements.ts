@@ -0,0 +1,115 @@
+import { TimerState, VoiceCue } from "../types";
+import { TimerEvent } from "./timerEvents";
+
+/**
+ * Announcements
+ * =============
+ * The words spoken for timer events (@see detectTimerEvents), e.g.
+ * "Round 3 of 8, work", "Rest", "Halfway", "1 minute remaining", "Time"
+ * ("Next set" at the end of a rest).
+ * Each phrase belongs to a VoiceCue group the user can switch off.
+ */
+
+/** Modes that call out the minutes left */
+const REMAINING_MODES = ["countdown", "amrap"];
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/** Phrase and cue group for a single event, if it has one in this mode */
+function describeEvent(
+  event: TimerEvent,
+  state: TimerState
+): { cue: VoiceCue; phrase: string } | null {
+  switch (event.type) {
+    case "INTRO_END":
+      return { cue: "start", phrase: "Go" };
+
+    case "PHASE_CHANGE": {
+      const { rounds, sets } = state.tabata;
+      switch (event.phase) {
+        case "rest":
+          return { cue: "rounds", phrase: "Rest" };
+        case "setRest":
+          return { cue: "rounds", phrase: "Set rest" };
+        case "coolDown":
+          return { cue: "rounds", phrase: "Cool down" };
+      }
+      // The set only changes at the first round, so only say it there
+      const isNewSet = event.round === 1 && sets > 1;
+      return {
+        cue: "rounds",
+        phrase: isNewSet
+          ? `Set ${event.set} of ${sets}, round 1 of ${rounds}, work`
+          : `Round ${event.round} of ${rounds}, work`,
+      };
+    }
+
+    case "INTERVAL_ROLLOVER":
+      return {
+        cue: "rounds",
+        phrase: `Round ${event.interval} of ${state.emom.rounds}`,
+      };
+
+    case "SEGMENT_CHANGE": {
+      const { segments, repeat } = state.intervals;
+      const label = segments[event.segment - 1]?.label ?? "";
+      // The round only changes at the first segment, so only say it there
+      const isNewRound = event.segment === 1 && repeat > 1;
+      return {
+        cue: "rounds",
+        phrase: isNewRound
+          ? `Round ${event.round} of ${repeat}, ${label}`
+          : label,
+      };
+    }
+
+    case "HALFWAY":
+      return { cue: "halfway", phrase: "Halfway" };
+
+    case "MINUTES_REMAINING": {
+      if (!REMAINING_MODES.includes(state.mode)) return null;
+      // The last minute is always called, whatever the frequency
+      const { remainingEvery } = state.voice;
+      if (event.minutes !== 1 && event.minutes % remainingEvery !== 0) {
+        return null;
+      }
+      return {
+        cue: "remaining",
+        phrase: `${pluralize(event.minutes, "minute")} remaining`,
+      };
+    }
+
+    case "COMPLETE":
+      return {
+        cue: "finish",
+        phrase: state.mode === "rest" ? "Next set" : "Time",
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * What to say for a batch of events, or null to stay quiet.
+ * Events landing together (e.g. a phase change at the halfway point) are
+ * joined into one announcement so neither cuts the other off.
+ */
+export function getAnnouncement(
+  events: TimerEvent[],
+  state: TimerState
+): string | null {
+  const phrases = events
+    .map((event) => describeEvent(event, state))
+    .filter(
+      (described): described is { cue: VoiceCue; phrase: string } =>
+        described !== null &&
+        described.phrase !== "" &&
+        state.voice.cues[described.cue]
+    )
+    .map((described) => described.phrase);
+
+  return phrases.length > 0 ? phrases.join(". ") : null;
+}
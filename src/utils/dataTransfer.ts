@@ -0,0 +1,384 @@
+import { IntervalSegment, Lap, Preset, Session, WorkoutConfig } from "../types";
+import { parseCsv, toCsv } from "./csv";
+import { isObject } from "./isObject";
+import {
+  Validated,
+  validatePreset,
+  validateSession,
+} from "./workoutValidation";
+
+/**
+ * Export files
+ * ============
+ * Presets and history can be exported as:
+ *
+ * - **JSON** - `{ format, version, exportedAt, presets, sessions }`, the
+ *   records exactly as stored. Bump EXPORT_VERSION if their shape changes.
+ * - **CSV** - one row per preset or session with the settings spread over
+ *   columns, for spreadsheets. Columns are matched by header name, so they
+ *   can be reordered.
+ *
+ * Importing checks every record on its own, so one bad row is reported
+ * rather than spoiling the whole file.
+ */
+
+export const EXPORT_FORMAT = "gym-clock";
+export const EXPORT_VERSION = 1;
+
+export interface ExportData {
+  presets: Preset[];
+  sessions: Session[];
+}
+
+export interface ImportError {
+  record: string; // e.g. "Preset 2", "Row 5"
+  message: string;
+}
+
+export interface ImportResult extends ExportData {
+  errors: ImportError[];
+}
+
+const CSV_COLUMNS = [
+  "type", // "preset" or "session"
+  "id",
+  "name",
+  "date", // ISO 8601: when the preset was saved / the session started
+  "mode",
+  "work_time", // seconds (tabata)
+  "rest_time", // seconds (tabata, rest)
+  "rounds", // tabata, emom
+  "sets", // tabata
+  "set_rest", // seconds (tabata)
+  "cool_down", // seconds (tabata)
+  "skip_last_rest", // "yes" or "no" (tabata)
+  "interval_time", // seconds (emom)
+  "total_time", // seconds (countdown, amrap)
+  "time_cap", // seconds (fortime)
+  "repeat", // intervals
+  "segments", // intervals: "Row:180:red:work | Rest:60:blue:rest" (@see segmentsToCsv)
+  "duration_ms",
+  "status",
+  "amrap_rounds_ms", // elapsed time at each round, space separated
+  "laps_ms", // elapsed time at each lap, space separated
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+type CsvRecord = Partial<Record<CsvColumn, string>>;
+
+/** Keep a checked record, or note why it was rejected */
+function collect<T>(
+  checked: Validated<T>,
+  record: string,
+  into: T[],
+  errors: ImportError[]
+) {
+  if (checked.ok) {
+    into.push(checked.value);
+  } else {
+    errors.push({ record, message: checked.error });
+  }
+}
+
+// JSON
+
+export function exportJson(data: ExportData, now: number = Date.now()): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date(now).toISOString(),
+      presets: data.presets,
+      sessions: data.sessions,
+    },
+    null,
+    2
+  );
+}
+
+function importJson(text: string): ImportResult {
+  const result: ImportResult = { presets: [], sessions: [], errors: [] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    result.errors.push({ record: "File", message: "not valid JSON" });
+    return result;
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    result.errors.push({ record: "File", message: "not a Gym Clock export" });
+    return result;
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    result.errors.push({
+      record: "File",
+      message: "made by a newer version of the app",
+    });
+    return result;
+  }
+
+  const presets: unknown[] = Array.isArray(data.presets) ? data.presets : [];
+  presets.forEach((value, i) => {
+    const label =
+      isObject(value) && typeof value.name === "string"
+        ? ` (${value.name})`
+        : "";
+    collect(
+      validatePreset(value),
+      `Preset ${i + 1}${label}`,
+      result.presets,
+      result.errors
+    );
+  });
+
+  const sessions: unknown[] = Array.isArray(data.sessions) ? data.sessions : [];
+  sessions.forEach((value, i) => {
+    collect(
+      validateSession(value),
+      `Session ${i + 1}`,
+      result.sessions,
+      result.errors
+    );
+  });
+
+  return result;
+}
+
+// CSV
+
+function configToCsv(config: WorkoutConfig): CsvRecord {
+  switch (config.mode) {
+    case "clock":
+    case "stopwatch":
+      return { mode: config.mode };
+    case "countdown":
+    case "amrap":
+      return {
+        mode: config.mode,
+        total_time: String(config.settings.totalTime),
+      };
+    case "tabata":
+      return {
+        mode: config.mode,
+        work_time: String(config.settings.workTime),
+        rest_time: String(config.settings.restTime),
+        rounds: String(config.settings.rounds),
+        sets: String(config.settings.sets),
+        set_rest: String(config.settings.setRest),
+        cool_down: String(config.settings.coolDown),
+        skip_last_rest: config.settings.skipLastRest ? "yes" : "no",
+      };
+    case "emom":
+      return {
+        mode: config.mode,
+        interval_time: String(config.settings.intervalTime),
+        rounds: String(config.settings.rounds),
+      };
+    case "fortime":
+      return { mode: config.mode, time_cap: String(config.settings.timeCap) };
+    case "rest":
+      return { mode: config.mode, rest_time: String(config.settings.duration) };
+    case "intervals":
+      return {
+        mode: config.mode,
+        repeat: String(config.settings.repeat),
+        segments: segmentsToCsv(config.settings.segments),
+      };
+  }
+}
+
+/** Build an (unchecked) workout config from a CSV row */
+function configFromCsv(record: CsvRecord): unknown {
+  const num = (column: CsvColumn) => {
+    const cell = record[column] ?? "";
+    return cell === "" ? undefined : Number(cell);
+  };
+  // Anything else is left for validation to reject
+  const yesNo = (column: CsvColumn) => {
+    const cell = (record[column] ?? "").trim().toLowerCase();
+    if (cell === "yes") return true;
+    if (cell === "no") return false;
+    return cell === "" ? undefined : cell;
+  };
+
+  switch (record.mode) {
+    case "countdown":
+    case "amrap":
+      return { mode: record.mode, settings: { totalTime: num("total_time") } };
+    case "tabata":
+      return {
+        mode: record.mode,
+        settings: {
+          workTime: num("work_time"),
+          restTime: num("rest_time"),
+          rounds: num("rounds"),
+          sets: num("sets"),
+          setRest: num("set_rest"),
+          coolDown: num("cool_down"),
+          skipLastRest: yesNo("skip_last_rest"),
+        },
+      };
+    case "emom":
+      return {
+        mode: record.mode,
+        settings: {
+          intervalTime: num("interval_time"),
+          rounds: num("rounds"),
+        },
+      };
+    case "fortime":
+      return { mode: record.mode, settings: { timeCap: num("time_cap") } };
+    case "rest":
+      return { mode: record.mode, settings: { duration: num("rest_time") } };
+    case "intervals": {
+      const cell = record.segments ?? "";
+      const segments =
+        cell === "" ? [] : splitSegments(cell).map(segmentFromCsv);
+      return {
+        mode: record.mode,
+        settings: { segments, repeat: num("repeat") },
+      };
+    }
+    default:
+      return { mode: record.mode };
+  }
+}
+
+/**
+ * Segments as one cell, "label:duration:color:kind" joined with " | ".
+ * A "|" or "\" in a label is escaped with a backslash; colons need no
+ * escaping as the last three fields never contain one.
+ */
+function segmentsToCsv(segments: IntervalSegment[]): string {
+  return segments
+    .map((s) => {
+      const label = s.label.replace(/[\\|]/g, "\\$&");
+      return `${label}:${s.duration}:${s.color}:${s.kind}`;
+    })
+    .join(" | ");
+}
+
+/** Split a segments cell on its unescaped "|"s, unescaping the rest */
+function splitSegments(cell: string): string[] {
+  const parts = [""];
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === "\\" && i + 1 < cell.length) {
+      parts[parts.length - 1] += cell[++i];
+    } else if (cell[i] === "|") {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += cell[i];
+    }
+  }
+  return parts;
+}
+
+/** "Row:180:red:work" - the label may itself contain colons */
+function segmentFromCsv(text: string) {
+  const parts = text.trim().split(":");
+  const [duration, color, kind] = parts.splice(-3, 3);
+  return {
+    label: parts.join(":"),
+    duration: duration === undefined ? undefined : Number(duration),
+    color,
+    kind,
+  };
+}
+
+function timesFromCsv(cell: string = ""): number[] {
+  return cell.trim() === "" ? [] : cell.trim().split(/\s+/).map(Number);
+}
+
+function lapsFromCsv(cell: string = ""): Lap[] {
+  return timesFromCsv(cell).map((elapsed, i, all) => ({
+    elapsed,
+    split: elapsed - (i === 0 ? 0 : all[i - 1]),
+  }));
+}
+
+export function exportCsv(data: ExportData): string {
+  const presetRows: CsvRecord[] = data.presets.map((preset) => ({
+    type: "preset",
+    id: preset.id,
+    name: preset.name,
+    date: new Date(preset.createdAt).toISOString(),
+    ...configToCsv(preset.config),
+  }));
+
+  const sessionRows: CsvRecord[] = data.sessions.map((session) => ({
+    type: "session",
+    id: session.id,
+    date: new Date(session.startedAt).toISOString(),
+    ...configToCsv(session.config),
+    duration_ms: String(Math.round(session.duration)),
+    status: session.status,
+    amrap_rounds_ms: session.amrapRounds.map(Math.round).join(" "),
+    laps_ms: session.laps.map((lap) => Math.round(lap.elapsed)).join(" "),
+  }));
+
+  return toCsv([
+    [...CSV_COLUMNS],
+    ...[...presetRows, ...sessionRows].map((record) =>
+      CSV_COLUMNS.map((column) => record[column] ?? "")
+    ),
+  ]);
+}
+
+function importCsv(text: string): ImportResult {
+  const result: ImportResult = { presets: [], sessions: [], errors: [] };
+  const [header, ...rows] = parseCsv(text);
+
+  const columns = (header ?? []).map((cell) => cell.trim().toLowerCase());
+  if (!columns.includes("type") || !columns.includes("mode")) {
+    result.errors.push({
+      record: "File",
+      message: "CSV needs a header row with type and mode columns",
+    });
+    return result;
+  }
+
+  rows.forEach((cells, i) => {
+    const record: CsvRecord = {};
+    columns.forEach((column, c) => {
+      record[column as CsvColumn] = (cells[c] ?? "").trim();
+    });
+    const label = `Row ${i + 2}`; // counting the header as row 1
+    const date = record.date ? Date.parse(record.date) : undefined;
+
+    if (record.type === "preset") {
+      const checked = validatePreset({
+        id: record.id,
+        name: record.name,
+        createdAt: date,
+        config: configFromCsv(record),
+      });
+      collect(checked, label, result.presets, result.errors);
+    } else if (record.type === "session") {
+      const checked = validateSession({
+        id: record.id,
+        startedAt: date,
+        duration: record.duration_ms ? Number(record.duration_ms) : undefined,
+        status: record.status,
+        amrapRounds: timesFromCsv(record.amrap_rounds_ms),
+        laps: lapsFromCsv(record.laps_ms),
+        config: configFromCsv(record),
+      });
+      collect(checked, label, result.sessions, result.errors);
+    } else {
+      result.errors.push({
+        record: label,
+        message: `type must be "preset" or "session"`,
+      });
+    }
+  });
+
+  return result;
+}
+
+/** Read an exported file, working out from its contents whether it's JSON or CSV */
+export function importData(text: string): ImportResult {
+  const trimmed = text.replace(/^\uFEFF/, "").trim(); // spreadsheets may add a BOM
+  return trimmed.startsWith("{") ? importJson(trimmed) : importCsv(trimmed);
+}
@@ -0,0 +1,4 @@
+/** Short unique id for list items (segments, presets...) */
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
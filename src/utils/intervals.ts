@@ -0,0 +1,80 @@
+import {
+  IntervalSegment,
+  IntervalSettings,
+  SegmentColor,
+  SegmentKind,
+} from "../types";
+import { createId } from "./id";
+
+/**
+ * Where a point in time falls within an intervals workout.
+ */
+export interface IntervalPosition {
+  round: number; // 1-indexed repeat of the segment list
+  segmentIndex: number; // 0-indexed into settings.segments
+  segmentRemaining: number; // milliseconds left in this segment
+}
+
+/** Colors a segment cycles through when its color dot is tapped */
+export const SEGMENT_COLORS: SegmentColor[] = [
+  "green",
+  "red",
+  "blue",
+  "yellow",
+];
+
+/** Length of one pass through the segment list, in milliseconds */
+export function getIntervalCycleTime(settings: IntervalSettings): number {
+  return settings.segments.reduce((sum, s) => sum + s.duration, 0) * 1000;
+}
+
+/** Length of the whole workout (all repeats), in milliseconds */
+export function getIntervalTotalTime(settings: IntervalSettings): number {
+  return getIntervalCycleTime(settings) * settings.repeat;
+}
+
+/**
+ * Find the segment running at `time` milliseconds into the workout.
+ * Returns null if there are no segments or the workout is over.
+ */
+export function locateSegment(
+  settings: IntervalSettings,
+  time: number
+): IntervalPosition | null {
+  const cycleTime = getIntervalCycleTime(settings);
+  if (cycleTime === 0 || time >= cycleTime * settings.repeat) {
+    return null;
+  }
+
+  const round = Math.floor(time / cycleTime) + 1;
+  let timeInCycle = time % cycleTime;
+
+  for (let i = 0; i < settings.segments.length; i++) {
+    const segmentTime = settings.segments[i].duration * 1000;
+    if (timeInCycle < segmentTime) {
+      return {
+        round,
+        segmentIndex: i,
+        segmentRemaining: segmentTime - timeInCycle,
+      };
+    }
+    timeInCycle -= segmentTime;
+  }
+
+  return null;
+}
+
+/**
+ * A label as it's stored and shared: trimmed, and never blank (a blank
+ * one becomes "Work" or "Rest" after the segment's kind)
+ */
+export function cleanSegmentLabel(label: string, kind: SegmentKind): string {
+  return label.trim() || (kind === "work" ? "Work" : "Rest");
+}
+
+/** Create a segment with a unique id, ready to add to the list */
+export function createSegment(
+  fields: Omit<IntervalSegment, "id">
+): IntervalSegment {
+  return { id: createId(), ...fields };
+}
@@ -0,0 +1,7 @@
+/** An object's fields, not yet checked */
+export type Fields = Record<string, unknown>;
+
+/** A plain object (not null or an array) whose fields can be checked */
+export function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
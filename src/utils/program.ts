@@ -0,0 +1,102 @@
+import { ProgramBlock, TimerState, WorkoutConfig } from "../types";
+import { formatSeconds } from "./timeFormat";
+import { describeWorkout } from "./workoutConfig";
+
+/**
+ * Workout Programs
+ * ================
+ * A program runs a list of blocks back to back (@see ProgramBlock). The
+ * timer runs one step at a time - a block, or the rest after it - and moves
+ * straight on to the next step when one finishes (@see timerReducer).
+ *
+ * Rests run as a countdown, so they show and sound like any other timer.
+ */
+
+export interface ProgramStep {
+  block: number; // 0-indexed
+  isRest: boolean; // the rest after `block`
+}
+
+type ProgramPosition = Pick<
+  TimerState,
+  "program" | "programBlock" | "isProgramRest"
+>;
+
+/** Blocks are named A, B, C... on screen */
+export function getBlockLetter(index: number): string {
+  return String.fromCharCode(65 + (index % 26));
+}
+
+/** The workout a step runs */
+export function getStepConfig(
+  program: ProgramBlock[],
+  step: ProgramStep
+): WorkoutConfig {
+  const block = program[step.block];
+  return step.isRest
+    ? { mode: "countdown", settings: { totalTime: block.restAfter } }
+    : block.config;
+}
+
+/**
+ * The step after the current one, or null during the last block.
+ * There's never a rest after the last block.
+ */
+export function getNextProgramStep(state: ProgramPosition): ProgramStep | null {
+  const { program, programBlock, isProgramRest } = state;
+  if (programBlock >= program.length - 1) return null;
+
+  if (!isProgramRest && program[programBlock].restAfter > 0) {
+    return { block: programBlock, isRest: true };
+  }
+  return { block: programBlock + 1, isRest: false };
+}
+
+/**
+ * True when a program moved on by itself between two states (as opposed to
+ * being reset, or a different program loaded)
+ */
+export function isProgramAdvance(
+  prev: ProgramPosition,
+  next: ProgramPosition
+): boolean {
+  if (prev.program.length === 0 || next.program !== prev.program) {
+    return false;
+  }
+  return (
+    next.programBlock > prev.programBlock ||
+    (next.programBlock === prev.programBlock &&
+      !prev.isProgramRest &&
+      next.isProgramRest)
+  );
+}
+
+/**
+ * Where the program is up to, e.g. "Part B - 2/4", or "Rest" between
+ * blocks. Null outside a program.
+ */
+export function formatProgramPart(state: ProgramPosition): string | null {
+  if (state.program.length === 0) return null;
+  if (state.isProgramRest) return "Rest";
+
+  const { programBlock, program } = state;
+  return `Part ${getBlockLetter(programBlock)} - ${programBlock + 1}/${
+    program.length
+  }`;
+}
+
+/**
+ * What comes after the current step, e.g. "Next: Rest 3:00" or
+ * "Next: B Tabata 8 x 0:20/0:10". Null during the last block.
+ */
+export function formatProgramNext(state: ProgramPosition): string | null {
+  const step = getNextProgramStep(state);
+  if (!step) return null;
+
+  if (step.isRest) {
+    const { restAfter } = state.program[step.block];
+    return `Next: Rest ${formatSeconds(restAfter)}`;
+  }
+  const { config } = state.program[step.block];
+  return `Next: ${getBlockLetter(step.block)} ${describeWorkout(config)}`;
+}
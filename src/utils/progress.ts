@@ -0,0 +1,112 @@
+import { TimerState } from "../types";
+import { locateSegment } from "./intervals";
+import {
+  getTabataPhaseTime,
+  getTabataRoundStarts,
+  locateTabata,
+} from "./tabata";
+import { getTotalDuration } from "./timeFormat";
+
+/**
+ * Workout Progress
+ * ================
+ * How far through the workout, and through the current phase, a timer is -
+ * for the progress bar under the digits (@see ProgressBar).
+ */
+export interface WorkoutProgress {
+  overall: number; // 0-1 through the whole workout
+  phase: number | null; // 0-1 through the current phase, null if there's none
+  ticks: number[]; // 0-1 positions where each round after the first starts
+}
+
+function fraction(done: number, total: number): number {
+  return total > 0 ? Math.min(1, Math.max(0, done / total)) : 0;
+}
+
+/**
+ * Progress for the current state, or null for modes with no end
+ * (clock, stopwatch). During the intro the phase is the intro itself.
+ */
+export function getProgress(state: TimerState): WorkoutProgress | null {
+  // Rest: each rest fills the bar, and it stays full until the next set
+  if (state.mode === "rest") {
+    const { restEndsAt, restSets, currentTime, restDuration } = state;
+    if (restEndsAt === null) {
+      return { overall: restSets > 0 ? 1 : 0, phase: null, ticks: [] };
+    }
+    const duration = restDuration * 1000;
+    const overall = fraction(currentTime - (restEndsAt - duration), duration);
+    return { overall, phase: null, ticks: [] };
+  }
+
+  const duration = getTotalDuration(state);
+  if (duration === null) return null;
+
+  const ticks = getRoundTicks(state, duration);
+
+  if (state.isInCountdownIntro) {
+    const { introDuration, introTimeRemaining } = state;
+    return {
+      overall: 0,
+      phase: fraction(introDuration - introTimeRemaining, introDuration),
+      ticks,
+    };
+  }
+
+  return {
+    overall: fraction(state.currentTime, duration),
+    phase: getPhaseProgress(state),
+    ticks,
+  };
+}
+
+/** Progress through the current phase, round or segment */
+function getPhaseProgress(state: TimerState): number | null {
+  const { currentTime } = state;
+
+  switch (state.mode) {
+    case "tabata": {
+      const position = locateTabata(state.tabata, currentTime);
+      if (!position) return 1;
+      const phaseTime = getTabataPhaseTime(state.tabata, position.phase);
+      return fraction(phaseTime - position.phaseRemaining, phaseTime);
+    }
+    case "emom": {
+      const intervalTime = state.emom.intervalTime * 1000;
+      const total = intervalTime * state.emom.rounds;
+      if (currentTime >= total) return 1;
+      return fraction(currentTime % intervalTime, intervalTime);
+    }
+    case "intervals": {
+      const position = locateSegment(state.intervals, currentTime);
+      if (!position) return 1;
+      const segment = state.intervals.segments[position.segmentIndex];
+      const segmentTime = segment.duration * 1000;
+      return fraction(segmentTime - position.segmentRemaining, segmentTime);
+    }
+    default:
+      return null;
+  }
+}
+
+/** Where rounds start along the bar (Tabata, EMOM and repeated intervals) */
+function getRoundTicks(state: TimerState, duration: number): number[] {
+  switch (state.mode) {
+    case "tabata":
+      return getTabataRoundStarts(state.tabata)
+        .slice(1)
+        .map((start) => start / duration);
+    case "emom":
+      return Array.from(
+        { length: state.emom.rounds - 1 },
+        (_, i) => (i + 1) / state.emom.rounds
+      );
+    case "intervals":
+      return Array.from(
+        { length: state.intervals.repeat - 1 },
+        (_, i) => (i + 1) / state.intervals.repeat
+      );
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,97 @@
+import { Session, SessionStatus, TimerState } from "../types";
+import { createId } from "./id";
+import { getWorkoutConfig } from "./workoutConfig";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionDay {
+  day: number; // local midnight, epoch ms
+  sessions: Session[]; // newest first
+}
+
+export interface WeeklyTotal {
+  weekStart: number; // local midnight on the Monday, epoch ms
+  count: number;
+  duration: number; // ms
+}
+
+/** Snapshot the state at the end of a run as a history entry */
+export function createSession(
+  state: TimerState,
+  startedAt: number,
+  status: SessionStatus
+): Session {
+  return {
+    id: createId(),
+    config: getWorkoutConfig(state),
+    startedAt,
+    duration: state.finishTime ?? state.currentTime,
+    status,
+    amrapRounds: state.amrapRounds,
+    laps: state.laps,
+  };
+}
+
+/** Local midnight at the start of the day containing `time` */
+export function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/** Local midnight on the Monday of the week containing `time` */
+export function startOfWeek(time: number): number {
+  const date = new Date(startOfDay(time));
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+}
+
+/** Sessions grouped by the day they started, newest day first */
+export function groupSessionsByDay(sessions: Session[]): SessionDay[] {
+  const sorted = [...sessions].sort((a, b) => b.startedAt - a.startedAt);
+  const days: SessionDay[] = [];
+
+  for (const session of sorted) {
+    const day = startOfDay(session.startedAt);
+    const last = days[days.length - 1];
+    if (last && last.day === day) {
+      last.sessions.push(session);
+    } else {
+      days.push({ day, sessions: [session] });
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Session count and total time for each of the last `weeks` weeks
+ * (Monday to Sunday), newest first. Weeks with no sessions are included.
+ */
+export function getWeeklyTotals(
+  sessions: Session[],
+  now: number,
+  weeks: number = 4
+): WeeklyTotal[] {
+  const totals: WeeklyTotal[] = [];
+  let weekStart = startOfWeek(now);
+
+  for (let i = 0; i < weeks; i++) {
+    totals.push({ weekStart, count: 0, duration: 0 });
+    // Step back via the previous day so DST changes can't skip a week
+    weekStart = startOfWeek(weekStart - DAY_MS);
+  }
+
+  for (const session of sessions) {
+    const week = totals.find(
+      (t) => t.weekStart === startOfWeek(session.startedAt)
+    );
+    if (week) {
+      week.count += 1;
+      week.duration += session.duration;
+    }
+  }
+
+  return totals;
+}
@@ -0,0 +1,262 @@
+import { WorkoutConfig } from "../types";
+import { Validated, validateWorkoutConfig } from "./workoutValidation";
+import { TABATA_SET_DEFAULTS } from "./tabata";
+import { cleanSegmentLabel } from "./intervals";
+
+/**
+ * Share Codes
+ * ===========
+ * A workout packed into a short, URL-safe string for links and QR codes:
+ *
+ *     1.WyJ0IiwyMCwxMCw4XQ.a8c4e68d
+ *     │ │                  └ checksum of everything before it
+ *     │ └ base64url of a JSON tuple, e.g. ["t", 20, 10, 8]
+ *     └ format version
+ *
+ * Tuples by mode (times in seconds):
+ *
+ * - `["c"]` clock, `["s"]` stopwatch
+ * - `["d", totalTime]` countdown, `["a", totalTime]` amrap
+ * - `["t", workTime, restTime, rounds]` tabata, followed by
+ *   `sets, setRest, coolDown, skipLastRest (0/1)` unless they're the defaults
+ * - `["e", intervalTime, rounds]` emom
+ * - `["f", timeCap]` for time
+ * - `["r", duration]` rest
+ * - `["i", repeat, [label, duration, color, kind], ...]` intervals, with
+ *   labels trimmed (a blank one is written as "Work" or "Rest")
+ *
+ * The checksum catches codes that were cut short or edited by hand; it
+ * isn't a signature. Decoding is strict - any extra, missing or
+ * out-of-range field rejects the whole code. Interval segment ids are only
+ * list keys, so new ones are made on decode.
+ */
+
+const CODE_VERSION = "1";
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+function toUtf8(text: string): number[] {
+  const bytes: number[] = [];
+  const encoded = encodeURIComponent(text);
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] === "%") {
+      bytes.push(parseInt(encoded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(encoded.charCodeAt(i));
+    }
+  }
+  return bytes;
+}
+
+/** Throws a URIError if the bytes aren't valid UTF-8 */
+function fromUtf8(bytes: number[]): string {
+  return decodeURIComponent(
+    bytes.map((b) => `%${b.toString(16).padStart(2, "0")}`).join("")
+  );
+}
+
+function toBase64Url(bytes: number[]): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+    for (let c = 0; c < chars; c++) {
+      out += BASE64_CHARS[(chunk >> (18 - c * 6)) & 63];
+    }
+  }
+  return out;
+}
+
+/** Null if `text` isn't base64url */
+function fromBase64Url(text: string): number[] | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) return null;
+
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 4) {
+    const group = text.slice(i, i + 4);
+    let chunk = 0;
+    for (let c = 0; c < 4; c++) {
+      chunk =
+        (chunk << 6) | (c < group.length ? BASE64_CHARS.indexOf(group[c]) : 0);
+    }
+    bytes.push((chunk >> 16) & 255);
+    if (group.length > 2) bytes.push((chunk >> 8) & 255);
+    if (group.length > 3) bytes.push(chunk & 255);
+  }
+  return bytes;
+}
+
+/** FNV-1a, as 8 hex digits */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+function toTuple(config: WorkoutConfig): unknown[] {
+  switch (config.mode) {
+    case "clock":
+      return ["c"];
+    case "stopwatch":
+      return ["s"];
+    case "countdown":
+      return ["d", config.settings.totalTime];
+    case "tabata": {
+      const { workTime, restTime, rounds, ...extras } = config.settings;
+      const tuple = ["t", workTime, restTime, rounds];
+      // A plain Tabata keeps the short form, which older builds can read
+      const isPlain = (
+        Object.keys(TABATA_SET_DEFAULTS) as (keyof typeof extras)[]
+      ).every((key) => extras[key] === TABATA_SET_DEFAULTS[key]);
+      if (isPlain) return tuple;
+      return [
+        ...tuple,
+        extras.sets,
+        extras.setRest,
+        extras.coolDown,
+        extras.skipLastRest ? 1 : 0,
+      ];
+    }
+    case "emom":
+      return ["e", config.settings.intervalTime, config.settings.rounds];
+    case "amrap":
+      return ["a", config.settings.totalTime];
+    case "fortime":
+      return ["f", config.settings.timeCap];
+    case "rest":
+      return ["r", config.settings.duration];
+    case "intervals":
+      return [
+        "i",
+        config.settings.repeat,
+        ...config.settings.segments.map((s) => [
+          cleanSegmentLabel(s.label, s.kind),
+          s.duration,
+          s.color,
+          s.kind,
+        ]),
+      ];
+  }
+}
+
+/** Unpack a tuple into an (unchecked) config, or null if it's the wrong shape */
+function fromTuple(tuple: unknown): unknown {
+  if (!Array.isArray(tuple)) return null;
+
+  const [code, ...fields] = tuple;
+  const sized = (mode: string, keys: string[]) =>
+    fields.length === keys.length
+      ? {
+          mode,
+          settings: Object.fromEntries(keys.map((key, i) => [key, fields[i]])),
+        }
+      : null;
+
+  switch (code) {
+    case "c":
+      return fields.length === 0 ? { mode: "clock" } : null;
+    case "s":
+      return fields.length === 0 ? { mode: "stopwatch" } : null;
+    case "d":
+      return sized("countdown", ["totalTime"]);
+    case "t": {
+      const short = sized("tabata", ["workTime", "restTime", "rounds"]);
+      if (short) return short;
+      const long = sized("tabata", [
+        "workTime",
+        "restTime",
+        "rounds",
+        "sets",
+        "setRest",
+        "coolDown",
+        "skipLastRest",
+      ]);
+      const skip = long?.settings.skipLastRest;
+      if (!long || (skip !== 0 && skip !== 1)) return null;
+      return {
+        ...long,
+        settings: { ...long.settings, skipLastRest: skip === 1 },
+      };
+    }
+    case "e":
+      return sized("emom", ["intervalTime", "rounds"]);
+    case "a":
+      return sized("amrap", ["totalTime"]);
+    case "f":
+      return sized("fortime", ["timeCap"]);
+    case "r":
+      return sized("rest", ["duration"]);
+    case "i": {
+      const [repeat, ...segments] = fields;
+      if (!segments.every((s) => Array.isArray(s) && s.length === 4)) {
+        return null;
+      }
+      return {
+        mode: "intervals",
+        settings: {
+          repeat,
+          segments: segments.map(([label, duration, color, kind]) => ({
+            label,
+            duration,
+            color,
+            kind,
+          })),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Pack a workout into a share code */
+export function encodeWorkout(config: WorkoutConfig): string {
+  const body = `${CODE_VERSION}.${toBase64Url(
+    toUtf8(JSON.stringify(toTuple(config)))
+  )}`;
+  return `${body}.${checksum(body)}`;
+}
+
+/** Unpack a share code, rejecting anything malformed or altered */
+export function decodeWorkout(code: string): Validated<WorkoutConfig> {
+  const invalid = { ok: false as const, error: "This workout code is damaged" };
+
+  const parts = code.trim().split(".");
+  if (parts.length !== 3) return invalid;
+
+  const [version, data, check] = parts;
+  if (version !== CODE_VERSION) {
+    return {
+      ok: false,
+      error: "This workout code needs a newer version of the app",
+    };
+  }
+  if (checksum(`${version}.${data}`) !== check) return invalid;
+
+  const bytes = fromBase64Url(data);
+  if (bytes === null) return invalid;
+
+  let tuple: unknown;
+  try {
+    tuple = JSON.parse(fromUtf8(bytes));
+  } catch {
+    return invalid;
+  }
+
+  const config = fromTuple(tuple);
+  if (config === null) return invalid;
+
+  const checked = validateWorkoutConfig(config);
+  if (!checked.ok) return invalid;
+
+  // Codes are only ever made by encodeWorkout, which writes labels the way
+  // they decode, so one that doesn't come out the same (an untrimmed label,
+  // a float written as 20.0...) was edited
+  return encodeWorkout(checked.value) === code.trim() ? checked : invalid;
+}
@@ -0,0 +1,153 @@
+import { TabataPhase, TabataSettings } from "../types";
+import { Fields, isObject } from "./isObject";
+
+/**
+ * Tabata Timeline
+ * ===============
+ * A Tabata runs `sets` sets of `rounds` rounds. Each round is work then
+ * rest, except:
+ *
+ * - between sets, the last round's rest is replaced by `setRest`
+ * - after the final round, the rest is dropped if `skipLastRest` is set
+ * - `coolDown` runs once at the very end
+ *
+ * With one set and no cool-down this is the classic 8 x 20/10.
+ */
+
+/** Where a point in time falls within a Tabata */
+export interface TabataPosition {
+  set: number; // 1-indexed
+  round: number; // 1-indexed within the set
+  phase: TabataPhase;
+  phaseRemaining: number; // milliseconds left in this phase
+}
+
+/** The settings added with sets, for configs saved before there were any */
+export const TABATA_SET_DEFAULTS: Pick<
+  TabataSettings,
+  "sets" | "setRest" | "coolDown" | "skipLastRest"
+> = { sets: 1, setRest: 60, coolDown: 0, skipLastRest: false };
+
+/** Work and rest for every round of one set, no set rest, in ms */
+function getRoundsTime(settings: TabataSettings): number {
+  const { workTime, restTime, rounds } = settings;
+  return (workTime * rounds + restTime * (rounds - 1)) * 1000;
+}
+
+/** Rest after the final round, in ms */
+function getLastRestTime(settings: TabataSettings): number {
+  return settings.skipLastRest ? 0 : settings.restTime * 1000;
+}
+
+/** Length of the whole workout, cool-down included, in milliseconds */
+export function getTabataTotalTime(settings: TabataSettings): number {
+  const { sets, setRest, coolDown } = settings;
+  return (
+    getRoundsTime(settings) * sets +
+    setRest * 1000 * (sets - 1) +
+    getLastRestTime(settings) +
+    coolDown * 1000
+  );
+}
+
+/**
+ * Find the phase running at `time` milliseconds into the workout.
+ * Returns null once the workout is over.
+ */
+export function locateTabata(
+  settings: TabataSettings,
+  time: number
+): TabataPosition | null {
+  const { workTime, restTime, rounds, sets } = settings;
+  const roundsTime = getRoundsTime(settings);
+  const setTime = roundsTime + settings.setRest * 1000;
+
+  // Every set but the last is the same length
+  const set = Math.min(Math.floor(time / setTime), sets - 1);
+  const timeInSet = time - set * setTime;
+
+  if (timeInSet < roundsTime) {
+    const cycleTime = (workTime + restTime) * 1000;
+    const round = Math.floor(timeInSet / cycleTime);
+    const timeInCycle = timeInSet - round * cycleTime;
+    const isWork = timeInCycle < workTime * 1000;
+    return {
+      set: set + 1,
+      round: round + 1,
+      phase: isWork ? "work" : "rest",
+      phaseRemaining: (isWork ? workTime * 1000 : cycleTime) - timeInCycle,
+    };
+  }
+
+  const afterRounds = timeInSet - roundsTime;
+  const position = { set: set + 1, round: rounds };
+
+  if (set < sets - 1) {
+    return {
+      ...position,
+      phase: "setRest",
+      phaseRemaining: setTime - timeInSet,
+    };
+  }
+
+  const lastRestTime = getLastRestTime(settings);
+  if (afterRounds < lastRestTime) {
+    return {
+      ...position,
+      phase: "rest",
+      phaseRemaining: lastRestTime - afterRounds,
+    };
+  }
+
+  const coolDownTime = settings.coolDown * 1000;
+  if (afterRounds - lastRestTime < coolDownTime) {
+    return {
+      ...position,
+      phase: "coolDown",
+      phaseRemaining: coolDownTime - (afterRounds - lastRestTime),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Tabata settings saved before there were sets, with the set fields filled
+ * in. Nothing else is checked, so they still go through
+ * validateWorkoutConfig (as stored presets, history and settings do).
+ */
+export function withTabataSetDefaults(settings: unknown): Fields {
+  const saved = isObject(settings) ? settings : {};
+  return { ...TABATA_SET_DEFAULTS, ...saved };
+}
+
+/** When each round starts, in milliseconds into the workout */
+export function getTabataRoundStarts(settings: TabataSettings): number[] {
+  const { workTime, restTime, rounds, sets } = settings;
+  const setTime = getRoundsTime(settings) + settings.setRest * 1000;
+
+  const starts: number[] = [];
+  for (let set = 0; set < sets; set++) {
+    for (let round = 0; round < rounds; round++) {
+      starts.push(set * setTime + round * (workTime + restTime) * 1000);
+    }
+  }
+  return starts;
+}
+
+/** Full length of a phase, in milliseconds */
+export function getTabataPhaseTime(
+  settings: TabataSettings,
+  phase: TabataPhase
+): number {
+  switch (phase) {
+    case "work":
+      return settings.workTime * 1000;
+    case "rest":
+      return settings.restTime * 1000;
+    case "setRest":
+      return settings.setRest * 1000;
+    case "coolDown":
+      return settings.coolDown * 1000;
+  }
+}
@@ -1,4 +1,6 @@
-import { TimerState } from "../types";
+import { SegmentColor, SegmentKind, TabataPhase, TimerState } from "../types";
+import { getIntervalTotalTime, locateSegment } from "./intervals";
+import { getTabataTotalTime, locateTabata } from "./tabata";
 
 export function formatTime(ms: number, showMillis: boolean = false): string {
   const totalSeconds = Math.floor(ms / 1000);
@@ -17,6 +19,59 @@ export function formatTime(ms: number, showMillis: boolean = false): string {
   return timeStr;
 }
 
+/**
+ * Format a settings duration in seconds as M:SS (e.g. 90 -> "1:30")
+ * Unlike formatTime there's no zero padding on the minutes.
+ */
+export function formatSeconds(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Total length of the workout in milliseconds, or null for modes that
+ * run indefinitely (clock, stopwatch, and rest - a session of rests runs
+ * until it's reset).
+ */
+export function getTotalDuration(state: TimerState): number | null {
+  switch (state.mode) {
+    case "countdown":
+      return state.countdown.totalTime * 1000;
+    case "amrap":
+      return state.amrap.totalTime * 1000;
+    case "fortime":
+      return state.fortime.timeCap * 1000;
+    case "tabata":
+      return getTabataTotalTime(state.tabata);
+    case "emom":
+      return state.emom.intervalTime * state.emom.rounds * 1000;
+    case "intervals":
+      return getIntervalTotalTime(state.intervals);
+    case "clock":
+    case "stopwatch":
+    case "rest":
+      return null;
+  }
+}
+
+/**
+ * Milliseconds left in the whole workout (the intro not included), or null
+ * for modes with no end (@see getTotalDuration)
+ */
+export function getRemainingDuration(state: TimerState): number | null {
+  const total = getTotalDuration(state);
+  if (total === null) return null;
+  if (state.finishTime !== null) return 0;
+  return Math.max(0, total - state.currentTime);
+}
+
+/** Time left in the whole workout, e.g. "03:20", or null if it has no end */
+export function formatRemaining(state: TimerState): string | null {
+  const remaining = getRemainingDuration(state);
+  return remaining === null ? null : formatTime(remaining);
+}
+
 export function formatCountdown(state: TimerState): string {
   const remaining = Math.max(
     0,
@@ -25,26 +80,42 @@ export function formatCountdown(state: TimerState): string {
   return formatTime(remaining);
 }
 
+const TABATA_PHASE_LABELS: Record<TabataPhase, string> = {
+  work: "WORK",
+  rest: "REST",
+  setRest: "SET REST",
+  coolDown: "COOL DOWN",
+};
+
+/**
+ * Time left in the current phase, the phase name and the round, with the
+ * set too when there's more than one, e.g. "SET 2/4 · ROUND 5/8"
+ */
 export function formatTabata(state: TimerState): {
   time: string;
   round: string;
   phase: string;
 } {
-  const { workTime, restTime } = state.tabata;
-  const cycleTime = (workTime + restTime) * 1000;
-  const currentCycleTime = state.currentTime % cycleTime;
-
-  let phaseTime: number;
-  if (state.isWorkPhase) {
-    phaseTime = workTime * 1000 - currentCycleTime;
-  } else {
-    phaseTime = cycleTime - currentCycleTime;
-  }
+  const { tabata } = state;
+  const totalTime = getTabataTotalTime(tabata);
 
+  // Once it's over, hold on the last phase, run out
+  const { set, round, phase, phaseRemaining } = locateTabata(
+    tabata,
+    Math.min(state.currentTime, totalTime - 1)
+  ) ?? {
+    set: state.currentSet,
+    round: state.currentRound,
+    phase: "work" as const,
+    phaseRemaining: 0,
+  };
+
+  const rounds = `${round}/${tabata.rounds}`;
   return {
-    time: formatTime(Math.max(0, phaseTime)),
-    round: `${state.currentRound}/${state.tabata.rounds}`,
-    phase: state.isWorkPhase ? "WORK" : "REST",
+    time: formatTime(state.currentTime >= totalTime ? 0 : phaseRemaining),
+    round:
+      tabata.sets > 1 ? `SET ${set}/${tabata.sets} · ROUND ${rounds}` : rounds,
+    phase: TABATA_PHASE_LABELS[phase],
   };
 }
 
@@ -52,12 +123,100 @@ export function formatEmom(state: TimerState): {
   time: string;
   minute: string;
 } {
-  const timeInCurrentMinute = state.currentTime % 60000;
-  const remaining = 60000 - timeInCurrentMinute;
+  const { intervalTime, rounds } = state.emom;
+  const intervalMs = intervalTime * 1000;
+
+  // Once the last interval has elapsed, hold at 00:00 instead of wrapping
+  // to a full interval
+  const isComplete = state.currentTime >= rounds * intervalMs;
+  const timeInCurrentInterval = state.currentTime % intervalMs;
+  const remaining = isComplete ? 0 : intervalMs - timeInCurrentInterval;
 
   return {
     time: formatTime(Math.max(0, remaining)),
-    minute: `${state.currentMinute}/${state.emom.totalMinutes}`,
+    minute: `${state.currentMinute}/${rounds}`,
+  };
+}
+
+/**
+ * What comes after the current phase in Tabata and EMOM, e.g.
+ * "NEXT: REST 0:10" or "NEXT: ROUND 6". Null in the last phase, and in
+ * other modes.
+ */
+export function formatNextUp(state: TimerState): string | null {
+  const { currentTime } = state;
+
+  switch (state.mode) {
+    case "tabata": {
+      const { tabata } = state;
+      const current = locateTabata(tabata, currentTime);
+      if (!current) return null;
+
+      const next = locateTabata(tabata, currentTime + current.phaseRemaining);
+      if (!next) return null;
+
+      switch (next.phase) {
+        case "work":
+          return next.set !== current.set
+            ? `NEXT: SET ${next.set}`
+            : `NEXT: ROUND ${next.round}`;
+        case "rest":
+          return `NEXT: REST ${formatSeconds(tabata.restTime)}`;
+        case "setRest":
+          return `NEXT: SET REST ${formatSeconds(tabata.setRest)}`;
+        case "coolDown":
+          return `NEXT: COOL DOWN ${formatSeconds(tabata.coolDown)}`;
+      }
+    }
+    case "emom": {
+      const { rounds, intervalTime } = state.emom;
+      const interval = Math.floor(currentTime / (intervalTime * 1000)) + 1;
+      return interval < rounds ? `NEXT: ROUND ${interval + 1}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format the intervals display
+ * Shows time left in the current segment, its label, and how far through the
+ * whole workout we are counting every segment of every repeat (e.g. "5/12")
+ */
+export function formatIntervals(state: TimerState): {
+  time: string;
+  label: string;
+  segment: string;
+  color: SegmentColor;
+  kind: SegmentKind;
+} {
+  const { segments, repeat } = state.intervals;
+  const totalSegments = segments.length * repeat;
+
+  if (segments.length === 0) {
+    return {
+      time: formatTime(0),
+      label: "",
+      segment: "0/0",
+      color: "red",
+      kind: "work",
+    };
+  }
+
+  // After the last segment there's no position, so hold on the final one
+  const position = locateSegment(state.intervals, state.currentTime);
+  const index = position
+    ? position.segmentIndex
+    : Math.min(state.currentSegment, segments.length) - 1;
+  const segment = segments[index];
+  const segmentNumber = (state.currentRound - 1) * segments.length + index + 1;
+
+  return {
+    time: formatTime(position ? position.segmentRemaining : 0),
+    label: segment.label.toUpperCase(),
+    segment: `${segmentNumber}/${totalSegments}`,
+    color: segment.color,
+    kind: segment.kind,
   };
 }
 
@@ -69,10 +228,96 @@ export function formatAmrap(state: TimerState): string {
   return formatTime(remaining);
 }
 
+/**
+ * Format the logged round count for the sub display (e.g. "3 RDS")
+ * Empty until the first round is logged. Used by AMRAP and For Time.
+ */
+export function formatAmrapRounds(state: TimerState): string {
+  const count = state.amrapRounds.length;
+  if (count === 0) return "";
+  return `${count} ${count === 1 ? "RD" : "RDS"}`;
+}
+
+/**
+ * Time taken for each logged AMRAP round, in milliseconds
+ * (each split is measured from the previous round, or from the start)
+ */
+export function getAmrapSplits({
+  amrapRounds,
+}: Pick<TimerState, "amrapRounds">): number[] {
+  return amrapRounds.map(
+    (time, i) => time - (i === 0 ? 0 : amrapRounds[i - 1])
+  );
+}
+
+/**
+ * Format the For Time display
+ * Counts up while running. Once over, shows the finish time if the athlete
+ * hit "done", or "CAP" if the time cap ran out first. `rounds` is the
+ * logged round count (e.g. "3 RDS"), empty until one is logged.
+ */
+export function formatForTime(state: TimerState): {
+  time: string;
+  status: "" | "DONE" | "CAP";
+  rounds: string;
+} {
+  const rounds = formatAmrapRounds(state);
+  if (state.finishTime !== null) {
+    return { time: formatTime(state.finishTime), status: "DONE", rounds };
+  }
+  if (state.currentTime >= state.fortime.timeCap * 1000) {
+    return { time: "CAP", status: "CAP", rounds };
+  }
+  return { time: formatTime(state.currentTime), status: "", rounds };
+}
+
+/**
+ * Format the rest timer display
+ * The rest counting down (or, between rests, the length of the next one),
+ * the set number and the time since the session started.
+ * e.g. { time: "01:12", set: "SET 4", session: "23:40" }
+ */
+export function formatRest(state: TimerState): {
+  time: string;
+  set: string;
+  session: string;
+} {
+  const { restEndsAt, restSets, currentTime } = state;
+  const remaining =
+    restEndsAt === null
+      ? state.rest.duration * 1000
+      : Math.max(0, restEndsAt - currentTime);
+
+  // Resting after set N, or between rests doing set N + 1
+  const set = restEndsAt === null ? restSets + 1 : restSets;
+
+  return {
+    time: formatTime(remaining),
+    set: `SET ${set}`,
+    session: formatTime(currentTime),
+  };
+}
+
 export function formatStopwatch(state: TimerState): string {
   return formatTime(state.currentTime, true);
 }
 
+/**
+ * Format the most recent stopwatch lap for the sub display
+ * e.g. { lap: "LAP 3", split: "01:02.45" }, or null before the first lap
+ */
+export function formatLastLap(
+  state: TimerState
+): { lap: string; split: string } | null {
+  const count = state.laps.length;
+  if (count === 0) return null;
+
+  return {
+    lap: `LAP ${count}`,
+    split: formatTime(state.laps[count - 1].split, true),
+  };
+}
+
 export function formatClock(): string {
   const now = new Date();
   const hours = now.getHours();
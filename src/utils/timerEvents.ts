@@ -0,0 +1,193 @@
+import { TabataPhase, TimerState } from "../types";
+import { isProgramAdvance } from "./program";
+import { locateTabata } from "./tabata";
+import { getTotalDuration } from "./timeFormat";
+
+/**
+ * Timer Events
+ * ============
+ * Notable moments in a workout, derived by comparing two consecutive
+ * TimerStates. Used to drive cues (sound etc.) without the reducer needing
+ * to know anything about them.
+ */
+export type TimerEvent =
+  | { type: "INTRO_TICK"; secondsRemaining: number } // 3-2-1 before GO
+  | { type: "INTRO_END" }
+  | {
+      type: "PHASE_CHANGE"; // tabata
+      phase: TabataPhase;
+      isWorkPhase: boolean;
+      round: number;
+      set: number;
+    }
+  | { type: "INTERVAL_ROLLOVER"; interval: number } // emom
+  | { type: "SEGMENT_CHANGE"; segment: number; round: number } // intervals
+  | { type: "HALFWAY" }
+  | { type: "MINUTES_REMAINING"; minutes: number } // each full minute left
+  | { type: "FINAL_SECONDS"; secondsRemaining: number } // last 10 seconds
+  | { type: "COMPLETE" };
+
+/** Intro seconds that get a pip */
+const INTRO_TICK_SECONDS = 3;
+
+/** Workout seconds remaining that get a pip */
+const FINAL_SECONDS = 10;
+
+/**
+ * True once a timed workout has run its full duration
+ * (or, For Time, the athlete has finished early)
+ */
+export function isWorkoutComplete(state: TimerState): boolean {
+  if (state.finishTime !== null) return true;
+
+  const duration = getTotalDuration(state);
+  return duration !== null && state.currentTime >= duration;
+}
+
+/**
+ * Work out which events happened between two states.
+ *
+ * Seconds are counted the same way they're displayed: the intro rounds up
+ * (see formatIntroCountdown), the workout rounds down (see formatTime).
+ */
+export function detectTimerEvents(
+  prev: TimerState,
+  next: TimerState
+): TimerEvent[] {
+  const events: TimerEvent[] = [];
+
+  // PROGRAM - a block finished and the next step took over. Finishing a block
+  // sounds like the end of a workout, and a block starting without an intro
+  // like the end of one.
+  if (isProgramAdvance(prev, next)) {
+    if (!prev.isProgramRest) events.push({ type: "COMPLETE" });
+    if (!next.isProgramRest && !next.isInCountdownIntro) {
+      events.push({ type: "INTRO_END" });
+    }
+    return events;
+  }
+
+  // COUNTDOWN INTRO
+  if (next.isInCountdownIntro) {
+    const prevSeconds = prev.isInCountdownIntro
+      ? Math.ceil(prev.introTimeRemaining / 1000)
+      : Infinity;
+    const nextSeconds = Math.ceil(next.introTimeRemaining / 1000);
+
+    if (nextSeconds < prevSeconds && nextSeconds <= INTRO_TICK_SECONDS) {
+      events.push({ type: "INTRO_TICK", secondsRemaining: nextSeconds });
+    }
+    return events;
+  }
+
+  // Leaving the intro by a RESET or SET_MODE also clears the flag, but only
+  // a finished intro keeps the timer running. A finished intro carries on to
+  // the checks below, as a long stall can skip right past the workout too.
+  if (prev.isInCountdownIntro && next.isRunning) {
+    events.push({ type: "INTRO_END" });
+  }
+
+  // FOR TIME - athlete hit "done" before the cap
+  if (prev.finishTime === null && next.finishTime !== null) {
+    events.push({ type: "COMPLETE" });
+    return events;
+  }
+
+  // MAIN WORKOUT - only interested in time moving forward in the same mode
+  if (prev.mode !== next.mode || next.currentTime <= prev.currentTime) {
+    return events;
+  }
+
+  // REST - each rest ends like a workout, while the session clock runs on.
+  // Starting another rest part way through just cuts this one short.
+  if (next.mode === "rest") {
+    if (prev.restEndsAt === null) return events;
+    if (next.restEndsAt === null) {
+      events.push({ type: "COMPLETE" });
+    } else if (next.restEndsAt === prev.restEndsAt) {
+      const prevSeconds = Math.floor(
+        (prev.restEndsAt - prev.currentTime) / 1000
+      );
+      const nextSeconds = Math.floor(
+        (next.restEndsAt - next.currentTime) / 1000
+      );
+      if (
+        nextSeconds < prevSeconds &&
+        nextSeconds > 0 &&
+        nextSeconds <= FINAL_SECONDS
+      ) {
+        events.push({ type: "FINAL_SECONDS", secondsRemaining: nextSeconds });
+      }
+    }
+    return events;
+  }
+
+  const duration = getTotalDuration(next);
+  if (duration === null) {
+    return events;
+  }
+
+  if (next.currentTime >= duration) {
+    events.push({ type: "COMPLETE" });
+    return events;
+  }
+
+  // Without a rest between rounds, work follows work - still a new phase
+  if (next.mode === "tabata") {
+    const before = locateTabata(prev.tabata, prev.currentTime);
+    const after = locateTabata(next.tabata, next.currentTime);
+    if (
+      after &&
+      (before?.phase !== after.phase ||
+        before.round !== after.round ||
+        before.set !== after.set)
+    ) {
+      events.push({
+        type: "PHASE_CHANGE",
+        phase: after.phase,
+        isWorkPhase: after.phase === "work",
+        round: after.round,
+        set: after.set,
+      });
+    }
+  }
+
+  if (next.mode === "emom" && next.currentMinute > prev.currentMinute) {
+    events.push({ type: "INTERVAL_ROLLOVER", interval: next.currentMinute });
+  }
+
+  if (
+    next.mode === "intervals" &&
+    (next.currentSegment !== prev.currentSegment ||
+      next.currentRound !== prev.currentRound)
+  ) {
+    events.push({
+      type: "SEGMENT_CHANGE",
+      segment: next.currentSegment,
+      round: next.currentRound,
+    });
+  }
+
+  if (prev.currentTime < duration / 2 && next.currentTime >= duration / 2) {
+    events.push({ type: "HALFWAY" });
+  }
+
+  const prevSeconds = Math.floor((duration - prev.currentTime) / 1000);
+  const nextSeconds = Math.floor((duration - next.currentTime) / 1000);
+
+  // The display reads exactly N:00 as a minute boundary is crossed
+  const nextMinutes = Math.ceil(nextSeconds / 60);
+  if (nextMinutes < Math.ceil(prevSeconds / 60) && nextMinutes > 0) {
+    events.push({ type: "MINUTES_REMAINING", minutes: nextMinutes });
+  }
+
+  if (
+    nextSeconds < prevSeconds &&
+    nextSeconds > 0 &&
+    nextSeconds <= FINAL_SECONDS
+  ) {
+    events.push({ type: "FINAL_SECONDS", secondsRemaining: nextSeconds });
+  }
+
+  return events;
+}
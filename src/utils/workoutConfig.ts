@@ -0,0 +1,117 @@
+import { TimerMode, TimerState, WorkoutConfig } from "../types";
+import { formatSeconds } from "./timeFormat";
+
+/** Every TimerMode, in the order they appear in the mode selector */
+export const TIMER_MODES: TimerMode[] = [
+  "clock",
+  "stopwatch",
+  "countdown",
+  "tabata",
+  "emom",
+  "amrap",
+  "fortime",
+  "intervals",
+  "rest",
+];
+
+/** Mode names as the mode selector shows them */
+export const MODE_LABELS: Record<TimerMode, string> = {
+  clock: "Clock",
+  stopwatch: "Stopwatch",
+  countdown: "Timer",
+  tabata: "Tabata",
+  emom: "EMOM",
+  amrap: "AMRAP",
+  fortime: "For Time",
+  intervals: "Intervals",
+  rest: "Rest",
+};
+
+/** Rest lengths the rest timer offers with one tap, in seconds */
+export const REST_DURATIONS = [90, 120, 180];
+
+/** The current mode and its settings, e.g. to save as a preset */
+export function getWorkoutConfig(state: TimerState): WorkoutConfig {
+  switch (state.mode) {
+    case "clock":
+    case "stopwatch":
+      return { mode: state.mode };
+    case "countdown":
+      return { mode: "countdown", settings: state.countdown };
+    case "tabata":
+      return { mode: "tabata", settings: state.tabata };
+    case "emom":
+      return { mode: "emom", settings: state.emom };
+    case "amrap":
+      return { mode: "amrap", settings: state.amrap };
+    case "fortime":
+      return { mode: "fortime", settings: state.fortime };
+    case "intervals":
+      return { mode: "intervals", settings: state.intervals };
+    case "rest":
+      return { mode: "rest", settings: state.rest };
+  }
+}
+
+/** Put a mode and its settings into the state (the reverse of getWorkoutConfig) */
+export function withWorkoutConfig(
+  state: TimerState,
+  config: WorkoutConfig
+): TimerState {
+  switch (config.mode) {
+    case "clock":
+    case "stopwatch":
+      return { ...state, mode: config.mode };
+    case "countdown":
+      return { ...state, mode: "countdown", countdown: config.settings };
+    case "tabata":
+      return { ...state, mode: "tabata", tabata: config.settings };
+    case "emom":
+      return { ...state, mode: "emom", emom: config.settings };
+    case "amrap":
+      return { ...state, mode: "amrap", amrap: config.settings };
+    case "fortime":
+      return { ...state, mode: "fortime", fortime: config.settings };
+    case "intervals":
+      return { ...state, mode: "intervals", intervals: config.settings };
+    case "rest":
+      return { ...state, mode: "rest", rest: config.settings };
+  }
+}
+
+/**
+ * One-line summary of a workout for lists
+ * e.g. "Tabata 8 x 0:20/0:10", "EMOM 10 x 2:00", "AMRAP 15:00"
+ */
+export function describeWorkout(config: WorkoutConfig): string {
+  switch (config.mode) {
+    case "clock":
+      return "Clock";
+    case "stopwatch":
+      return "Stopwatch";
+    case "countdown":
+      return `Timer ${formatSeconds(config.settings.totalTime)}`;
+    case "tabata": {
+      const { sets, rounds, workTime, restTime } = config.settings;
+      const setCount = sets > 1 ? `${sets} x ` : "";
+      return `Tabata ${setCount}${rounds} x ${formatSeconds(
+        workTime
+      )}/${formatSeconds(restTime)}`;
+    }
+    case "emom": {
+      const { rounds, intervalTime } = config.settings;
+      return `EMOM ${rounds} x ${formatSeconds(intervalTime)}`;
+    }
+    case "amrap":
+      return `AMRAP ${formatSeconds(config.settings.totalTime)}`;
+    case "fortime":
+      return `For Time cap ${formatSeconds(config.settings.timeCap)}`;
+    case "intervals": {
+      const { segments, repeat } = config.settings;
+      const labels = segments.map((s) => s.label).join(", ");
+      return `Intervals ${repeat} x (${labels})`;
+    }
+    case "rest":
+      return `Rest ${formatSeconds(config.settings.duration)}`;
+  }
+}
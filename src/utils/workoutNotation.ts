@@ -0,0 +1,284 @@
+import { IntervalSegment, WorkoutConfig } from "../types";
+import { createSegment } from "./intervals";
+import { TABATA_SET_DEFAULTS } from "./tabata";
+import { Validated, validateWorkoutConfig } from "./workoutValidation";
+
+/**
+ * Workout Notation
+ * ================
+ * Short text for setting up a workout without the +/- buttons:
+ *
+ * | Text                                 | Workout                           |
+ * | ------------------------------------ | --------------------------------- |
+ * | `tabata 8x20/10`                     | 8 rounds of 20s work / 10s rest   |
+ * | `tabata 4x8x20/10`                   | The same, 4 sets                  |
+ * | `emom 12 @90s`, `emom 20 every 2:00` | 12 x 1:30, 20 x 2:00              |
+ * | `amrap 15`, `amrap 15:00`            | 15 minute AMRAP                   |
+ * | `for time cap 20`                    | For Time with a 20 minute cap     |
+ * | `countdown 3:00`, `timer 90s`        | 3 minute / 90 second timer        |
+ * | `rest 90`, `rest 2:00`               | Rest timer, 90s / 2 min per set   |
+ * | `3x(400m run 2:00, rest 1:00)`       | Intervals, 3 times through        |
+ * | `stopwatch`, `clock`                 |                                   |
+ *
+ * Times can be `m:ss`, `90s`, `2m`, `1m30s` or a bare number. A bare number
+ * means minutes for a workout's length (`amrap 15`, `every 2`) and seconds
+ * for anything shorter (tabata work/rest, `@90`, rests, interval segments).
+ */
+
+const EXAMPLE = `e.g. "tabata 8x20/10", "amrap 15" or "3x(run 2:00, rest 1:00)"`;
+
+type Unit = "seconds" | "minutes";
+
+/** Parse a time into whole seconds, or null if it isn't one */
+export function parseDuration(text: string, bareUnit: Unit): number | null {
+  const token = text.trim().toLowerCase();
+
+  // 1:30, 15:00, 1:00:00
+  if (/^\d+(:\d{1,2}){1,2}$/.test(token)) {
+    const parts = token.split(":").map(Number);
+    if (parts.slice(1).some((part) => part >= 60)) return null;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+
+  // 20, 1.5
+  if (/^\d+(\.\d+)?$/.test(token)) {
+    const value = Number(token);
+    return Math.round(bareUnit === "minutes" ? value * 60 : value);
+  }
+
+  // 90s, 2m, 2min, 1m30s, 1h
+  const match = token.match(
+    /^(?:(\d+)\s*h(?:rs?|ours?)?)?\s*(?:(\d+)\s*m(?:in(?:ute)?s?)?)?\s*(?:(\d+)\s*s(?:ec(?:ond)?s?)?)?$/
+  );
+  if (match && (match[1] || match[2] || match[3])) {
+    const [, hours = "0", minutes = "0", seconds = "0"] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  return null;
+}
+
+function fail(error: string): { ok: false; error: string } {
+  return { ok: false, error };
+}
+
+/** The time at the end of `rest` (which is required), e.g. "amrap 15:00" */
+function parseLength(
+  rest: string,
+  name: string,
+  example: string
+): Validated<number> {
+  if (rest === "") {
+    return fail(`${name} needs a time, e.g. "${example}"`);
+  }
+  const seconds = parseDuration(rest, "minutes");
+  if (seconds === null) {
+    return fail(`Couldn't read "${rest}" as a time`);
+  }
+  return { ok: true, value: seconds };
+}
+
+function parseTabata(rest: string): Validated<WorkoutConfig> {
+  if (rest === "") {
+    return {
+      ok: true,
+      value: {
+        mode: "tabata",
+        settings: {
+          workTime: 20,
+          restTime: 10,
+          rounds: 8,
+          ...TABATA_SET_DEFAULTS,
+        },
+      },
+    };
+  }
+
+  // 8x20/10 (also "8 x 20s/10s"), or with sets first, 4x8x20/10
+  const match = rest.match(
+    /^(?:(\d+)\s*x\s*)?(\d+)\s*x\s*([^/\s]+)\s*\/\s*(\S+)$/i
+  );
+  if (!match) {
+    return fail(`Tabata is rounds x work/rest, e.g. "tabata 8x20/10"`);
+  }
+
+  const workTime = parseDuration(match[3], "seconds");
+  const restTime = parseDuration(match[4], "seconds");
+  if (workTime === null || restTime === null) {
+    return fail(`Couldn't read "${match[3]}/${match[4]}" as work/rest times`);
+  }
+  return {
+    ok: true,
+    value: {
+      mode: "tabata",
+      settings: {
+        workTime,
+        restTime,
+        rounds: Number(match[2]),
+        ...TABATA_SET_DEFAULTS,
+        sets: match[1] === undefined ? 1 : Number(match[1]),
+      },
+    },
+  };
+}
+
+function parseEmom(rest: string): Validated<WorkoutConfig> {
+  // 12, 12 @90s, 20 every 2:00
+  const match = rest.match(/^(\d+)(?:\s*(?:@|every)\s*(.+))?$/i);
+  if (!match) {
+    return fail(
+      `EMOM is a number of rounds, e.g. "emom 12" or "emom 20 every 2:00"`
+    );
+  }
+
+  let intervalTime = 60;
+  if (match[2] !== undefined) {
+    // "@90" is seconds, "every 2" is minutes
+    const bareUnit = rest.includes("@") ? "seconds" : "minutes";
+    const seconds = parseDuration(match[2], bareUnit);
+    if (seconds === null) {
+      return fail(`Couldn't read "${match[2].trim()}" as a time`);
+    }
+    intervalTime = seconds;
+  }
+
+  return {
+    ok: true,
+    value: {
+      mode: "emom",
+      settings: { intervalTime, rounds: Number(match[1]) },
+    },
+  };
+}
+
+/** "400m run 2:00" - the last word is the time, the rest is the label */
+function parseSegment(text: string): Validated<IntervalSegment> {
+  const words = text.trim().split(/\s+/);
+  const time = words.pop() ?? "";
+  const label = words.join(" ");
+
+  const duration = parseDuration(time, "seconds");
+  if (label === "" || duration === null) {
+    return fail(
+      `Each part needs a name and a time, e.g. "rest 1:00" (got "${text.trim()}")`
+    );
+  }
+
+  const isRest = /^(rest|recover|off|break)/i.test(label);
+  return {
+    ok: true,
+    value: createSegment({
+      label,
+      duration,
+      color: isRest ? "red" : "green",
+      kind: isRest ? "rest" : "work",
+    }),
+  };
+}
+
+function parseIntervals(text: string): Validated<WorkoutConfig> {
+  // 3x(...) or just (...)
+  const match = text.match(/^(?:(\d+)\s*x\s*)?\((.*)\)$/i);
+  if (!match) {
+    return fail(`Intervals look like "3x(run 2:00, rest 1:00)"`);
+  }
+
+  const segments: IntervalSegment[] = [];
+  for (const part of match[2].split(",")) {
+    const segment = parseSegment(part);
+    if (!segment.ok) return segment;
+    segments.push(segment.value);
+  }
+
+  return {
+    ok: true,
+    value: {
+      mode: "intervals",
+      settings: { segments, repeat: match[1] ? Number(match[1]) : 1 },
+    },
+  };
+}
+
+function parseConfig(text: string): Validated<WorkoutConfig> {
+  if (text.includes("(")) {
+    return parseIntervals(text);
+  }
+
+  const match = text.match(/^(for time|[a-z]+)\s*(.*)$/i);
+  const name = match?.[1].toLowerCase() ?? "";
+  const rest = match?.[2].trim() ?? "";
+
+  switch (name) {
+    case "clock":
+    case "stopwatch":
+      return rest === ""
+        ? { ok: true, value: { mode: name } }
+        : fail(`${name} doesn't take any settings`);
+    case "tabata":
+      return parseTabata(rest);
+    case "emom":
+      return parseEmom(rest);
+    case "amrap": {
+      const totalTime = parseLength(rest, "AMRAP", "amrap 15");
+      if (!totalTime.ok) return totalTime;
+      return {
+        ok: true,
+        value: { mode: "amrap", settings: { totalTime: totalTime.value } },
+      };
+    }
+    case "for time":
+    case "fortime": {
+      const timeCap = parseLength(
+        rest.replace(/^cap\s*/i, ""),
+        "For Time",
+        "for time cap 20"
+      );
+      if (!timeCap.ok) return timeCap;
+      return {
+        ok: true,
+        value: { mode: "fortime", settings: { timeCap: timeCap.value } },
+      };
+    }
+    case "countdown":
+    case "timer": {
+      const totalTime = parseLength(rest, "A timer", "countdown 3:00");
+      if (!totalTime.ok) return totalTime;
+      return {
+        ok: true,
+        value: { mode: "countdown", settings: { totalTime: totalTime.value } },
+      };
+    }
+    case "rest": {
+      if (rest === "") {
+        return fail(`A rest timer needs a time, e.g. "rest 90"`);
+      }
+      const duration = parseDuration(rest, "seconds");
+      if (duration === null) {
+        return fail(`Couldn't read "${rest}" as a time`);
+      }
+      return { ok: true, value: { mode: "rest", settings: { duration } } };
+    }
+    default:
+      return fail(`Unknown workout "${name || text}", try ${EXAMPLE}`);
+  }
+}
+
+/**
+ * Turn workout notation into a mode and settings.
+ * Errors are short enough to show under a text field.
+ */
+export function parseWorkout(text: string): Validated<WorkoutConfig> {
+  const normalized = text.trim().replace(/\s+/g, " ");
+  if (normalized === "") {
+    return fail(`Type a workout, ${EXAMPLE}`);
+  }
+
+  const parsed = parseConfig(normalized);
+  if (!parsed.ok) return parsed;
+
+  // Catches zero rounds, zero-length times and so on
+  const checked = validateWorkoutConfig(parsed.value);
+  return checked.ok
+    ? checked
+    : fail(`That workout won't run: ${checked.error}`);
+}
@@ -0,0 +1,306 @@
+import {
+  IntervalSegment,
+  Lap,
+  Preset,
+  Session,
+  TimerMode,
+  WorkoutConfig,
+} from "../types";
+import { createId } from "./id";
+import { Fields, isObject } from "./isObject";
+import { SEGMENT_COLORS } from "./intervals";
+import { TABATA_SET_DEFAULTS, withTabataSetDefaults } from "./tabata";
+import { TIMER_MODES } from "./workoutConfig";
+
+/** Either the checked value or a message saying what's wrong with it */
+export type Validated<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/** Error message if `fields[key]` isn't a whole number >= min, else null */
+function checkWholeNumber(
+  fields: Fields,
+  key: string,
+  min: number,
+  path: string
+): string | null {
+  const value = fields[key];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    return `${path}.${key} must be a whole number of at least ${min}`;
+  }
+  return null;
+}
+
+/** Check each whole-number field in turn, returning the first problem */
+function checkFields(
+  fields: Fields,
+  mins: Record<string, number>,
+  path: string
+): string | null {
+  for (const key of Object.keys(mins)) {
+    const error = checkWholeNumber(fields, key, mins[key], path);
+    if (error) return error;
+  }
+  return null;
+}
+
+/** Fill in fields that are missing (or undefined) from `defaults` */
+function withDefaults(fields: Fields, defaults: Fields): Fields {
+  const filled = { ...fields };
+  for (const key of Object.keys(defaults)) {
+    if (filled[key] === undefined) filled[key] = defaults[key];
+  }
+  return filled;
+}
+
+function validateSegment(
+  value: unknown,
+  path: string
+): Validated<IntervalSegment> {
+  if (!isObject(value)) {
+    return { ok: false, error: `${path} must be an object` };
+  }
+  if (typeof value.label !== "string" || value.label.trim() === "") {
+    return { ok: false, error: `${path}.label must be some text` };
+  }
+  const error = checkWholeNumber(value, "duration", 1, path);
+  if (error) return { ok: false, error };
+  if (!SEGMENT_COLORS.includes(value.color as IntervalSegment["color"])) {
+    return {
+      ok: false,
+      error: `${path}.color must be one of ${SEGMENT_COLORS.join(", ")}`,
+    };
+  }
+  if (value.kind !== "work" && value.kind !== "rest") {
+    return { ok: false, error: `${path}.kind must be "work" or "rest"` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: typeof value.id === "string" ? value.id : createId(),
+      label: value.label.trim(),
+      duration: value.duration as number,
+      color: value.color as IntervalSegment["color"],
+      kind: value.kind,
+    },
+  };
+}
+
+/**
+ * Check that an untrusted value (an imported file, a share link...) is a
+ * workout the timer can run. Times are whole seconds.
+ */
+export function validateWorkoutConfig(
+  value: unknown
+): Validated<WorkoutConfig> {
+  if (!isObject(value)) {
+    return { ok: false, error: "workout must be an object" };
+  }
+
+  const mode = value.mode as TimerMode;
+  if (!TIMER_MODES.includes(mode)) {
+    return { ok: false, error: `unknown mode "${String(value.mode)}"` };
+  }
+  if (mode === "clock" || mode === "stopwatch") {
+    return { ok: true, value: { mode } };
+  }
+
+  const settings = value.settings;
+  if (!isObject(settings)) {
+    return { ok: false, error: `${mode} settings are missing` };
+  }
+
+  let error: string | null;
+  switch (mode) {
+    case "countdown":
+      error = checkFields(settings, { totalTime: 1 }, mode);
+      if (error) return { ok: false, error };
+      return {
+        ok: true,
+        value: { mode, settings: { totalTime: settings.totalTime as number } },
+      };
+    case "tabata": {
+      // Sets came later, so older files and links leave them out
+      const tabata = withDefaults(settings, TABATA_SET_DEFAULTS);
+      error = checkFields(
+        tabata,
+        {
+          workTime: 1,
+          restTime: 0,
+          rounds: 1,
+          sets: 1,
+          setRest: 0,
+          coolDown: 0,
+        },
+        mode
+      );
+      if (error) return { ok: false, error };
+      if (typeof tabata.skipLastRest !== "boolean") {
+        return {
+          ok: false,
+          error: `${mode}.skipLastRest must be true or false`,
+        };
+      }
+      return {
+        ok: true,
+        value: {
+          mode,
+          settings: {
+            workTime: tabata.workTime as number,
+            restTime: tabata.restTime as number,
+            rounds: tabata.rounds as number,
+            sets: tabata.sets as number,
+            setRest: tabata.setRest as number,
+            coolDown: tabata.coolDown as number,
+            skipLastRest: tabata.skipLastRest,
+          },
+        },
+      };
+    }
+    case "emom":
+      error = checkFields(settings, { intervalTime: 1, rounds: 1 }, mode);
+      if (error) return { ok: false, error };
+      return {
+        ok: true,
+        value: {
+          mode,
+          settings: {
+            intervalTime: settings.intervalTime as number,
+            rounds: settings.rounds as number,
+          },
+        },
+      };
+    case "amrap":
+      error = checkFields(settings, { totalTime: 1 }, mode);
+      if (error) return { ok: false, error };
+      return {
+        ok: true,
+        value: { mode, settings: { totalTime: settings.totalTime as number } },
+      };
+    case "fortime":
+      error = checkFields(settings, { timeCap: 1 }, mode);
+      if (error) return { ok: false, error };
+      return {
+        ok: true,
+        value: { mode, settings: { timeCap: settings.timeCap as number } },
+      };
+    case "rest":
+      error = checkFields(settings, { duration: 1 }, mode);
+      if (error) return { ok: false, error };
+      return {
+        ok: true,
+        value: { mode, settings: { duration: settings.duration as number } },
+      };
+    case "intervals": {
+      error = checkFields(settings, { repeat: 1 }, mode);
+      if (error) return { ok: false, error };
+      // An empty list is allowed: it's what the builder has after deleting
+      // every segment, and the timer just completes straight away
+      if (!Array.isArray(settings.segments)) {
+        return { ok: false, error: "intervals.segments must be a list" };
+      }
+      const segments: IntervalSegment[] = [];
+      for (let i = 0; i < settings.segments.length; i++) {
+        const segment = validateSegment(
+          settings.segments[i],
+          `intervals.segments[${i + 1}]`
+        );
+        if (!segment.ok) return segment;
+        segments.push(segment.value);
+      }
+      return {
+        ok: true,
+        value: {
+          mode,
+          settings: { segments, repeat: settings.repeat as number },
+        },
+      };
+    }
+  }
+}
+
+/**
+ * A stored workout config from before Tabata had sets, with the set
+ * fields filled in. It still needs checking with validateWorkoutConfig.
+ */
+export function migrateTabataConfig(config: unknown): unknown {
+  if (!isObject(config) || config.mode !== "tabata") return config;
+  return { ...config, settings: withTabataSetDefaults(config.settings) };
+}
+
+function isTime(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/** Check an untrusted preset. A missing id or date is filled in. */
+export function validatePreset(value: unknown): Validated<Preset> {
+  if (!isObject(value)) {
+    return { ok: false, error: "preset must be an object" };
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    return { ok: false, error: "name must be some text" };
+  }
+  const config = validateWorkoutConfig(value.config);
+  if (!config.ok) return config;
+
+  return {
+    ok: true,
+    value: {
+      id: typeof value.id === "string" && value.id ? value.id : createId(),
+      name: value.name.trim(),
+      config: config.value,
+      createdAt: isTime(value.createdAt) ? value.createdAt : Date.now(),
+    },
+  };
+}
+
+/** Check an untrusted history session. A missing id is filled in. */
+export function validateSession(value: unknown): Validated<Session> {
+  if (!isObject(value)) {
+    return { ok: false, error: "session must be an object" };
+  }
+  const config = validateWorkoutConfig(value.config);
+  if (!config.ok) return config;
+
+  if (!isTime(value.startedAt)) {
+    return { ok: false, error: "startedAt must be a date" };
+  }
+  if (!isTime(value.duration)) {
+    return { ok: false, error: "duration must be a time in milliseconds" };
+  }
+  if (value.status !== "completed" && value.status !== "abandoned") {
+    return {
+      ok: false,
+      error: `status must be "completed" or "abandoned"`,
+    };
+  }
+
+  const amrapRounds = value.amrapRounds ?? [];
+  if (!Array.isArray(amrapRounds) || !amrapRounds.every(isTime)) {
+    return { ok: false, error: "amrapRounds must be a list of times" };
+  }
+
+  const laps = value.laps ?? [];
+  if (
+    !Array.isArray(laps) ||
+    !laps.every(
+      (lap) => isObject(lap) && isTime(lap.elapsed) && isTime(lap.split)
+    )
+  ) {
+    return { ok: false, error: "laps must be a list of { elapsed, split }" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: typeof value.id === "string" && value.id ? value.id : createId(),
+      config: config.value,
+      startedAt: value.startedAt,
+      duration: value.duration,
+      status: value.status,
+      amrapRounds,
+      laps: laps as Lap[],
+    },
+  };
+}